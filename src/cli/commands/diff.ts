@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Command } from 'commander';
+import ora from 'ora';
+import { analyzeProject } from './scan.js';
+import { parseApiStyleList } from '../options.js';
+import { ConfigLoader } from '../../core/configuration/config-loader.js';
+import { GitClient } from '../../core/git/git-client.js';
+import {
+  ScanSnapshot,
+  computeScanDiff,
+  hasWeakenedEndpoints,
+  snapshotFromJson,
+  snapshotFromScanResult,
+} from '../../core/diff/scan-diff.js';
+import { severityOrder, parseSeverity } from '../../core/models/severity.js';
+import { LicenseManager } from '../../licensing/license-manager.js';
+import { LicenseFeature } from '../../core/licensing/license-features.js';
+import { DiffFormatter } from '../../output/diff/diff-formatter-interface.js';
+import { TerminalDiffFormatter } from '../../output/diff/terminal-diff-formatter.js';
+import { JsonDiffFormatter } from '../../output/diff/json-diff-formatter.js';
+import { MarkdownDiffFormatter } from '../../output/diff/markdown-diff-formatter.js';
+
+interface DiffCommandOptions {
+  output?: string;
+  outputFile?: string;
+  config?: string;
+  project: string;
+  apiStyle?: string;
+  failOn?: string;
+  failOnWeakened?: boolean;
+  color?: boolean;
+  icons?: boolean;
+}
+
+export function createDiffCommand(): Command {
+  return new Command('diff')
+    .description(
+      'Compare API security posture between two scans (JSON reports) or two git refs'
+    )
+    .argument('<base>', 'Base JSON scan report or git ref')
+    .argument('<head>', 'Head JSON scan report or git ref')
+    .option('-o, --output <format>', 'Output format: terminal, json, markdown', 'terminal')
+    .option('-f, --output-file <path>', 'Write output to file')
+    .option('-c, --config <path>', 'Path to config file used when scanning git refs')
+    .option('--project <path>', 'Project path inside the repository when scanning git refs', '.')
+    .option('--api-style <styles>', 'Limit git ref scans to frameworks: express, nestjs, fastify, koa')
+    .option('--fail-on <level>', 'Exit with code 1 if new findings at this level or higher')
+    .option('--fail-on-weakened', 'Exit with code 1 if any endpoint lost authorization')
+    .option('--no-color', 'Disable colors in output')
+    .option('--no-icons', 'Disable icons in output')
+    .action(async (base: string, head: string, cmdOptions: DiffCommandOptions) => {
+      await runDiff(base, head, cmdOptions);
+    });
+}
+
+async function runDiff(base: string, head: string, options: DiffCommandOptions): Promise<void> {
+  if (!new LicenseManager().hasFeature(LicenseFeature.DiffMode)) {
+    console.error('Error: The diff command requires a Pro license (diff-mode feature).');
+    console.error('Activate a license with: apiposture license activate <key>');
+    process.exit(1);
+  }
+
+  const failOn = options.failOn ? parseSeverity(options.failOn) : undefined;
+  if (options.failOn && !failOn) {
+    console.error(`Error: Invalid --fail-on level: ${options.failOn}`);
+    process.exit(1);
+  }
+
+  const spinner = ora({
+    text: 'Comparing scans...',
+    isSilent: (options.output ?? 'terminal') !== 'terminal',
+  }).start();
+
+  try {
+    const baseSnapshot = await loadSnapshot(base, options);
+    const headSnapshot = await loadSnapshot(head, options);
+    const diff = computeScanDiff(baseSnapshot, headSnapshot);
+
+    spinner.succeed('Diff complete');
+
+    const output = getDiffFormatter(options).format(diff);
+    if (options.outputFile) {
+      fs.writeFileSync(options.outputFile, output, 'utf-8');
+      console.log(`Output written to: ${options.outputFile}`);
+    } else {
+      console.log(output);
+    }
+
+    if (
+      failOn &&
+      diff.newFindings.some((f) => severityOrder[f.severity] >= severityOrder[failOn])
+    ) {
+      process.exit(1);
+    }
+
+    if (options.failOnWeakened && hasWeakenedEndpoints(diff)) {
+      process.exit(1);
+    }
+  } catch (error) {
+    spinner.fail('Diff failed');
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
+/**
+ * An existing file is read as a `scan -o json` report; anything else is
+ * treated as a git ref, checked out into a temporary worktree and scanned.
+ */
+async function loadSnapshot(source: string, options: DiffCommandOptions): Promise<ScanSnapshot> {
+  if (fs.existsSync(source) && fs.statSync(source).isFile()) {
+    const content = fs.readFileSync(source, 'utf-8');
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error(`Failed to parse scan report: ${source}`);
+    }
+    return snapshotFromJson(data, source);
+  }
+
+  const projectPath = path.resolve(options.project);
+  const git = new GitClient(projectPath);
+  const repoRoot = git.getRepoRoot();
+  const relativeProject = path.relative(fs.realpathSync(repoRoot), fs.realpathSync(projectPath));
+
+  const worktreePath = git.createWorktree(source);
+  try {
+    const scanPath = path.join(worktreePath, relativeProject);
+    const config = await new ConfigLoader().load(options.config, scanPath);
+    const apiStyles = options.apiStyle ? parseApiStyleList(options.apiStyle) : undefined;
+    const result = await analyzeProject(scanPath, config, apiStyles);
+    return snapshotFromScanResult(result, source);
+  } finally {
+    git.removeWorktree(worktreePath);
+  }
+}
+
+function getDiffFormatter(options: DiffCommandOptions): DiffFormatter {
+  switch (options.output) {
+    case 'json':
+      return new JsonDiffFormatter();
+    case 'markdown':
+      return new MarkdownDiffFormatter();
+    case 'terminal':
+    default:
+      return new TerminalDiffFormatter({
+        noColor: options.color === false,
+        noIcons: options.icons === false,
+      });
+  }
+}
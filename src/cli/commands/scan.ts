@@ -10,7 +10,7 @@ import {
   parseApiStyleList,
   parseRuleList,
 } from '../options.js';
-import { ProjectAnalyzer } from '../../core/analysis/project-analyzer.js';
+import { ProjectAnalyzer, AnalyzeOptions } from '../../core/analysis/project-analyzer.js';
 import { ExpressDiscoverer } from '../../core/discovery/express-discoverer.js';
 import { NestJSDiscoverer } from '../../core/discovery/nestjs-discoverer.js';
 import { FastifyDiscoverer } from '../../core/discovery/fastify-discoverer.js';
@@ -22,21 +22,29 @@ import { TerminalFormatter } from '../../output/terminal-formatter.js';
 import { JsonFormatter } from '../../output/json-formatter.js';
 import { MarkdownFormatter } from '../../output/markdown-formatter.js';
 import { OutputFormatter } from '../../output/formatter-interface.js';
-import { ConfigLoader } from '../../core/configuration/config-loader.js';
+import { ConfigLoader, ApiPostureConfig } from '../../core/configuration/config-loader.js';
+import { SuppressionMatcher } from '../../core/configuration/suppression-matcher.js';
+import { BaselineLoader, BaselineMatcher } from '../../core/configuration/baseline.js';
+import { GitClient } from '../../core/git/git-client.js';
 
 export function createScanCommand(): Command {
   const command = new Command('scan')
     .description('Scan a Node.js project for API security issues')
     .argument('[path]', 'Path to the project to scan', '.')
-    .option('-o, --output <format>', 'Output format: terminal, json, markdown', 'terminal')
+    .option('-o, --output <format>', 'Output format: terminal, json, markdown (default: terminal)')
     .option('-f, --output-file <path>', 'Write output to file')
     .option('-c, --config <path>', 'Path to config file (.apiposture.json)')
     .option('--severity <level>', 'Minimum severity: info, low, medium, high, critical')
     .option('--fail-on <level>', 'Exit with code 1 if findings at this level or higher')
+    .option('--fail-on-stale-suppressions', 'Exit with code 1 if any suppression is expired or unused')
+    .option('--strict-discovery', 'Exit with code 1 if any route registration could not be resolved')
+    .option('--baseline <path>', 'Hide findings recorded in a baseline file')
+    .option('--write-baseline <path>', 'Write current findings to a baseline file')
+    .option('--changed-since <ref>', 'Only scan files changed since a git ref and the files they mount')
     .option('--sort-by <field>', 'Sort by: severity, route, method, classification')
     .option('--sort-dir <dir>', 'Sort direction: asc, desc')
     .option('--classification <types>', 'Filter by classification (comma-separated)')
-    .option('--method <methods>', 'Filter by HTTP method (comma-separated)')
+    .option('--method <methods>', 'Filter by HTTP method or GraphQL operation (comma-separated)')
     .option('--route-contains <str>', 'Filter routes containing string')
     .option('--api-style <styles>', 'Filter by framework: express, nestjs, fastify, koa')
     .option('--rule <rules>', 'Filter by rule ID (comma-separated)')
@@ -62,20 +70,32 @@ async function runScan(
     process.exit(1);
   }
 
-  // Load config if specified (for future use with rule configuration)
+  // Load config: explicit --config path, otherwise discovered from the project root
   const configPath = cmdOptions.config as string | undefined;
-  if (configPath) {
-    const configLoader = new ConfigLoader();
-    await configLoader.load(configPath);
+  let config: ApiPostureConfig;
+  try {
+    config = await new ConfigLoader().load(configPath, absolutePath);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
   }
 
-  // Parse options
+  // Parse options. Precedence: CLI flags > config file > built-in defaults
   const options: ScanOptions = {
     ...defaultScanOptions,
-    output: (cmdOptions.output as ScanOptions['output']) ?? 'terminal',
+    output:
+      (cmdOptions.output as ScanOptions['output'] | undefined) ??
+      config.output?.format ??
+      defaultScanOptions.output,
+    config: configPath,
     outputFile: cmdOptions.outputFile as string | undefined,
     severity: cmdOptions.severity ? parseSeverity(cmdOptions.severity as string) : undefined,
     failOn: cmdOptions.failOn ? parseSeverity(cmdOptions.failOn as string) : undefined,
+    failOnStaleSuppressions: cmdOptions.failOnStaleSuppressions === true,
+    strictDiscovery: cmdOptions.strictDiscovery === true,
+    baseline: cmdOptions.baseline as string | undefined,
+    writeBaseline: cmdOptions.writeBaseline as string | undefined,
+    changedSince: cmdOptions.changedSince as string | undefined,
     sortBy: cmdOptions.sortBy as ScanOptions['sortBy'],
     sortDir: cmdOptions.sortDir as ScanOptions['sortDir'],
     classification: cmdOptions.classification
@@ -91,8 +111,8 @@ async function runScan(
     rule: cmdOptions.rule
       ? parseRuleList(cmdOptions.rule as string)
       : undefined,
-    noColor: cmdOptions.color === false,
-    noIcons: cmdOptions.icons === false,
+    noColor: cmdOptions.color === false || (config.output?.noColor ?? defaultScanOptions.noColor),
+    noIcons: cmdOptions.icons === false || (config.output?.noIcons ?? defaultScanOptions.noIcons),
   };
 
   // Start scanning
@@ -102,31 +122,28 @@ async function runScan(
   }).start();
 
   try {
-    // Create analyzer
-    const analyzer = new ProjectAnalyzer();
-
-    // Register discoverers based on api-style filter or all by default
     const apiStyles = options.apiStyle ?? ['express', 'nestjs', 'fastify', 'koa'];
-
-    if (apiStyles.includes('express' as any)) {
-      analyzer.registerDiscoverer(new ExpressDiscoverer());
-    }
-    if (apiStyles.includes('nestjs' as any)) {
-      analyzer.registerDiscoverer(new NestJSDiscoverer());
+    const analyzeOptions: AnalyzeOptions = {};
+    if (options.changedSince) {
+      const files = new GitClient(absolutePath).getChangedFiles(options.changedSince);
+      analyzeOptions.changedSince = { ref: options.changedSince, files };
     }
-    if (apiStyles.includes('fastify' as any)) {
-      analyzer.registerDiscoverer(new FastifyDiscoverer());
+    let result = await analyzeProject(absolutePath, config, apiStyles, analyzeOptions);
+    let findings = result.findings;
+
+    // Hide known findings recorded in the baseline, then optionally snapshot the current set
+    const baselineLoader = new BaselineLoader();
+    if (options.baseline) {
+      const baseline = await baselineLoader.load(options.baseline);
+      findings = new BaselineMatcher(baseline).applyBaselineToFindings(findings);
     }
-    if (apiStyles.includes('koa' as any)) {
-      analyzer.registerDiscoverer(new KoaDiscoverer());
+    if (options.writeBaseline) {
+      const written = await baselineLoader.write(options.writeBaseline, findings);
+      spinner.info(
+        `Baseline with ${written.findings.length} findings written to: ${options.writeBaseline}`
+      );
     }
 
-    // Run analysis
-    let result = await analyzer.analyze(absolutePath);
-
-    // Apply rule evaluation
-    const ruleEngine = new RuleEngine();
-    const findings = ruleEngine.evaluate(result.endpoints);
     result = { ...result, findings };
 
     // Apply filters
@@ -152,6 +169,14 @@ async function runScan(
         process.exit(1);
       }
     }
+
+    if (options.failOnStaleSuppressions && result.staleSuppressions.length > 0) {
+      process.exit(1);
+    }
+
+    if (options.strictDiscovery && result.diagnostics.length > 0) {
+      process.exit(1);
+    }
   } catch (error) {
     spinner.fail('Scan failed');
     console.error(error instanceof Error ? error.message : error);
@@ -159,6 +184,62 @@ async function runScan(
   }
 }
 
+/**
+ * Runs discovery, rule evaluation and suppression matching for a project.
+ * Shared by `scan` and `diff` so both see identical results.
+ */
+export async function analyzeProject(
+  absolutePath: string,
+  config: ApiPostureConfig,
+  apiStyles: string[] = ['express', 'nestjs', 'fastify', 'koa'],
+  analyzeOptions: AnalyzeOptions = {}
+): Promise<ScanResult> {
+  // Create analyzer
+  const analyzer = new ProjectAnalyzer({
+    additionalExcludePatterns: config.scan?.excludePatterns,
+    includePatterns: config.scan?.includePatterns,
+  });
+
+  // Register discoverers based on api-style filter or all by default
+  if (apiStyles.includes('express')) {
+    analyzer.registerDiscoverer(new ExpressDiscoverer());
+  }
+  if (apiStyles.includes('nestjs')) {
+    analyzer.registerDiscoverer(new NestJSDiscoverer({ guards: config.nestjs?.guards }));
+  }
+  if (apiStyles.includes('fastify')) {
+    analyzer.registerDiscoverer(new FastifyDiscoverer());
+  }
+  if (apiStyles.includes('koa')) {
+    analyzer.registerDiscoverer(new KoaDiscoverer());
+  }
+
+  // Run analysis
+  const result = await analyzer.analyze(absolutePath, analyzeOptions);
+
+  // Apply rule evaluation
+  const ruleEngine = new RuleEngine({ rules: config.rules });
+  const suppressionMatcher = new SuppressionMatcher(
+    config.suppressions,
+    result.inlineSuppressions,
+    {
+      scope: result.changeScope && {
+        endpoints: result.endpoints,
+        files: result.changeScope.affectedFiles,
+      },
+    }
+  );
+  const findings = suppressionMatcher.applySuppressionsToFindings(
+    ruleEngine.evaluate(result.endpoints)
+  );
+
+  return {
+    ...result,
+    findings,
+    staleSuppressions: suppressionMatcher.getStaleSuppressions(),
+  };
+}
+
 function applyFilters(result: ScanResult, options: ScanOptions): ScanResult {
   let { endpoints, findings } = result;
 
@@ -1,6 +1,6 @@
 import { Severity } from '../core/models/severity.js';
 import { SecurityClassification, parseSecurityClassification } from '../core/models/security-classification.js';
-import { HttpMethod, parseHttpMethod } from '../core/models/http-method.js';
+import { EndpointMethod, parseEndpointMethod } from '../core/models/http-method.js';
 import { EndpointType, parseEndpointType } from '../core/models/endpoint-type.js';
 
 export interface ScanOptions {
@@ -9,10 +9,15 @@ export interface ScanOptions {
   config?: string;
   severity?: Severity;
   failOn?: Severity;
+  failOnStaleSuppressions?: boolean;
+  strictDiscovery?: boolean;
+  baseline?: string;
+  writeBaseline?: string;
+  changedSince?: string;
   sortBy?: 'severity' | 'route' | 'method' | 'classification';
   sortDir?: 'asc' | 'desc';
   classification?: SecurityClassification[];
-  method?: HttpMethod[];
+  method?: EndpointMethod[];
   routeContains?: string;
   apiStyle?: EndpointType[];
   rule?: string[];
@@ -34,11 +39,11 @@ export function parseClassificationList(value: string): SecurityClassification[]
     .filter((v): v is SecurityClassification => v !== undefined);
 }
 
-export function parseMethodList(value: string): HttpMethod[] {
+export function parseMethodList(value: string): EndpointMethod[] {
   return value
     .split(',')
-    .map((v) => parseHttpMethod(v.trim()))
-    .filter((v): v is HttpMethod => v !== undefined);
+    .map((v) => parseEndpointMethod(v.trim()))
+    .filter((v): v is EndpointMethod => v !== undefined);
 }
 
 export function parseApiStyleList(value: string): EndpointType[] {
@@ -0,0 +1,121 @@
+import * as ts from 'typescript';
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveRelativeModule } from './module-resolution.js';
+
+export interface ChangedFileSet {
+  /** Changed files that are part of the scannable source set */
+  changedFiles: string[];
+  /** Files to parse: affected files, their importers up to the app entry points, and app-wide configuration */
+  scanFiles: string[];
+  /**
+   * Files whose endpoints are affected by the change: changed files, files
+   * using a changed guard, decorator or middleware, and everything they mount
+   */
+  affectedFiles: string[];
+}
+
+/** App-wide configuration that applies to endpoints in other files (NestJS global guards, prefix, ...) */
+const GLOBAL_CONFIG_PATTERN = /\b(useGlobalGuards|APP_GUARD|setGlobalPrefix|enableVersioning|RouterModule)\b/;
+
+/** Guards, decorators and middleware: code that changes the auth of the routes importing it */
+const AUTH_PROVIDER_PATTERN =
+  /\b(CanActivate|applyDecorators|SetMetadata|createParamDecorator|NestMiddleware|addHook)\b|\(\s*req\b[^)]*,\s*res\b[^)]*,\s*next\b/;
+
+/** Route declarations; middleware written next to them only concerns the file's own routes */
+const ROUTE_DECLARATION_PATTERN =
+  /\.(get|post|put|patch|delete|all|head|options|route)\s*\(\s*['"`]|@(Controller|Resolver|WebSocketGateway)\b/;
+
+/**
+ * Narrows a project's source files to the neighbourhood of a change using a
+ * lightweight import graph:
+ *
+ * - affected: changed files and, transitively, what they import (routers
+ *   mounted by mounted routers, modules imported by modules); for a changed
+ *   guard, decorator or middleware also the files using it, through other
+ *   guards and decorators wrapping it
+ * - context only: importers of affected files up to the app entry points, so
+ *   prefixes and middleware applied a few files up still reach their routes,
+ *   and files with app-wide configuration
+ */
+export class ChangedFileResolver {
+  resolve(candidateFiles: string[], changedFiles: string[]): ChangedFileSet {
+    const candidates = new Set(candidateFiles.map((f) => path.resolve(f)));
+    const changed = changedFiles.map((f) => path.resolve(f)).filter((f) => candidates.has(f));
+
+    const imports = new Map<string, string[]>();
+    const importers = new Map<string, string[]>();
+    const globalConfigFiles: string[] = [];
+    const authProviders = new Set<string>();
+    for (const file of candidates) {
+      const content = this.readFile(file);
+      imports.set(file, this.getImportedFiles(file, content, candidates));
+      if (changed.length > 0 && GLOBAL_CONFIG_PATTERN.test(content)) {
+        globalConfigFiles.push(file);
+      }
+      if (AUTH_PROVIDER_PATTERN.test(content) && !ROUTE_DECLARATION_PATTERN.test(content)) {
+        authProviders.add(file);
+      }
+    }
+    for (const [file, imported] of imports) {
+      for (const target of imported) {
+        importers.set(target, [...(importers.get(target) ?? []), file]);
+      }
+    }
+
+    // @Auth() wrapping a changed guard passes the change on to its users, a controller does not
+    const users = this.walk(
+      changed.filter((f) => authProviders.has(f)),
+      importers,
+      (file) => authProviders.has(file)
+    );
+    const affected = this.walk([...changed, ...users], imports);
+    const scan = new Set([...this.walk([...affected], importers), ...globalConfigFiles]);
+
+    return {
+      changedFiles: [...changed].sort(),
+      scanFiles: candidateFiles.filter((f) => scan.has(path.resolve(f))),
+      affectedFiles: [...affected].sort(),
+    };
+  }
+
+  /**
+   * `start` and every file reachable from it along `edges`; with `through`,
+   * only files it accepts are followed further
+   */
+  private walk(
+    start: string[],
+    edges: Map<string, string[]>,
+    through: (file: string) => boolean = () => true
+  ): Set<string> {
+    const reached = new Set(start);
+    const pending = [...start];
+    while (pending.length > 0) {
+      for (const next of edges.get(pending.pop()!) ?? []) {
+        if (reached.has(next)) continue;
+        reached.add(next);
+        if (through(next)) pending.push(next);
+      }
+    }
+    return reached;
+  }
+
+  private readFile(filePath: string): string {
+    try {
+      return fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      return '';
+    }
+  }
+
+  private getImportedFiles(filePath: string, content: string, candidates: Set<string>): string[] {
+    // preProcessFile only tokenizes import/require/dynamic import, no full parse
+    const { importedFiles } = ts.preProcessFile(content, true, true);
+    const resolved: string[] = [];
+    for (const { fileName } of importedFiles) {
+      const target = resolveRelativeModule(filePath, fileName, candidates);
+      if (target) resolved.push(target);
+    }
+    return resolved;
+  }
+}
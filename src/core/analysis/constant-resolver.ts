@@ -0,0 +1,455 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile } from './source-file-loader.js';
+import { ModuleGraph } from './module-graph.js';
+
+/** Stands in for the part of a route path whose value can't be determined statically */
+export const UNRESOLVED_SEGMENT = ':unresolved';
+
+/** An expression (or enum) and the file it lives in */
+export interface ValueRef {
+  filePath: string;
+  node: ts.Expression | ts.EnumDeclaration;
+}
+
+/** Values of loop variables for one iteration, by variable name */
+export type LoopBindings = Map<string, ValueRef>;
+
+const MAX_RESOLUTION_DEPTH = 20;
+
+/** Upper bound on unrolled iterations of nested loops around one call */
+const MAX_LOOP_ITERATIONS = 500;
+
+const ITERATION_METHODS = new Set(['forEach', 'map']);
+
+const CASE_METHODS = new Set(['toLowerCase', 'toUpperCase']);
+
+/**
+ * Folds route path expressions to strings: literals, `const` declarations,
+ * members of `const` object literals and enums, template strings and `+`
+ * concatenation, following imports between project files.
+ *
+ * ```ts
+ * const API = '/api';
+ * const ROUTES = { USERS: `${API}/users` } as const;
+ * app.get(ROUTES.USERS, ...)   // '/api/users'
+ * ```
+ *
+ * Parts of a template or concatenation that can't be resolved become
+ * `:unresolved`; an expression that can't be resolved at all yields null.
+ */
+export class ConstantResolver {
+  private moduleGraph: ModuleGraph;
+  private sourceFiles: Map<string, ts.SourceFile>;
+
+  constructor(files: LoadedSourceFile[], moduleGraph?: ModuleGraph) {
+    this.moduleGraph = moduleGraph ?? new ModuleGraph(files);
+    this.sourceFiles = new Map(files.map((f) => [f.filePath, f.sourceFile]));
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.sourceFiles.has(filePath);
+  }
+
+  resolveString(
+    filePath: string,
+    expression: ts.Expression,
+    bindings: LoopBindings = new Map()
+  ): string | null {
+    return this.fold(filePath, expression, 0, bindings);
+  }
+
+  /** Elements of an array literal the expression refers to, with nested spreads flattened */
+  resolveElements(
+    filePath: string,
+    expression: ts.Expression,
+    bindings: LoopBindings = new Map()
+  ): ValueRef[] | null {
+    return this.resolveArray(filePath, expression, 0, bindings);
+  }
+
+  /**
+   * For an expression rooted at a loop variable (`route`, `route.handler`),
+   * the expression it stands for in this iteration, as written in the array
+   * (so `{ handler: listUsers }` gives the identifier `listUsers`).
+   */
+  resolveLoopExpression(
+    filePath: string,
+    expression: ts.Expression,
+    bindings: LoopBindings
+  ): ValueRef | null {
+    let root = this.unwrap(expression);
+    while (ts.isPropertyAccessExpression(root) || ts.isElementAccessExpression(root)) {
+      root = this.unwrap(root.expression);
+    }
+    if (!ts.isIdentifier(root) || !bindings.has(root.text)) return null;
+
+    const node = this.unwrap(expression);
+    if (ts.isIdentifier(node)) return bindings.get(node.text)!;
+
+    const member = this.getAccessedMember(node);
+    if (member === null) return null;
+    const target = this.resolveValue(filePath, (node as ts.PropertyAccessExpression).expression, 1, bindings);
+    return target ? this.getMember(target, member, 1, bindings, false) : null;
+  }
+
+  /**
+   * One set of loop-variable values per iteration of the `for...of`,
+   * `.forEach()` and `.map()` loops around `node` that iterate over array
+   * literals, e.g. `for (const route of ROUTES) router[route.method](...)`.
+   * A single empty set when `node` is in no such loop.
+   */
+  getLoopBindings(filePath: string, node: ts.Node): LoopBindings[] {
+    const loops: { pattern: ts.BindingName; array: ts.Expression }[] = [];
+    let child: ts.Node = node;
+    let current = node.parent;
+
+    while (current) {
+      if (
+        ts.isForOfStatement(current) &&
+        current.statement === child &&
+        ts.isVariableDeclarationList(current.initializer) &&
+        current.initializer.declarations.length === 1
+      ) {
+        loops.unshift({ pattern: current.initializer.declarations[0].name, array: current.expression });
+      } else if (
+        ts.isCallExpression(current) &&
+        current.arguments[0] === child &&
+        (ts.isArrowFunction(child) || ts.isFunctionExpression(child)) &&
+        child.parameters.length > 0 &&
+        ts.isPropertyAccessExpression(current.expression) &&
+        ITERATION_METHODS.has(current.expression.name.text)
+      ) {
+        loops.unshift({ pattern: child.parameters[0].name, array: current.expression.expression });
+      }
+      child = current;
+      current = current.parent;
+    }
+
+    // Outer loops first: an inner array may come from the outer element (group.routes)
+    let iterations: LoopBindings[] = [new Map()];
+    for (const loop of loops) {
+      const next: LoopBindings[] = [];
+      for (const bindings of iterations) {
+        const elements = this.resolveArray(filePath, loop.array, 0, bindings);
+        if (!elements) {
+          next.push(bindings);
+          continue;
+        }
+        for (const element of elements) {
+          next.push(this.bindPattern(loop.pattern, element, bindings));
+        }
+      }
+      if (next.length > MAX_LOOP_ITERATIONS) break;
+      iterations = next;
+    }
+    return iterations;
+  }
+
+  private bindPattern(pattern: ts.BindingName, element: ValueRef, outer: LoopBindings): LoopBindings {
+    const bindings = new Map(outer);
+    const value = this.deref(element, 1, outer) ?? element;
+
+    if (ts.isIdentifier(pattern)) {
+      bindings.set(pattern.text, value);
+    } else if (ts.isObjectBindingPattern(pattern)) {
+      // for (const { method, path: routePath, middleware = [] } of routes)
+      for (const el of pattern.elements) {
+        if (!ts.isIdentifier(el.name) || el.dotDotDotToken) continue;
+        const property = el.propertyName ? this.getPropertyName(el.propertyName) : el.name.text;
+        const member = property !== null ? this.getMember(value, property, 1, outer, false) : null;
+        if (member) {
+          bindings.set(el.name.text, member);
+        } else if (el.initializer) {
+          bindings.set(el.name.text, { filePath: element.filePath, node: el.initializer });
+        }
+      }
+    }
+    return bindings;
+  }
+
+  private resolveArray(
+    filePath: string,
+    expression: ts.Expression,
+    depth: number,
+    bindings: LoopBindings
+  ): ValueRef[] | null {
+    if (depth > MAX_RESOLUTION_DEPTH) return null;
+
+    // ...(route.middleware ?? [])
+    const unwrapped = this.unwrap(expression);
+    if (
+      ts.isBinaryExpression(unwrapped) &&
+      unwrapped.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken
+    ) {
+      return (
+        this.resolveArray(filePath, unwrapped.left, depth + 1, bindings) ??
+        this.resolveArray(filePath, unwrapped.right, depth + 1, bindings)
+      );
+    }
+
+    const value = this.resolveValue(filePath, expression, depth + 1, bindings);
+    if (!value || ts.isEnumDeclaration(value.node)) return null;
+    const array = this.unwrap(value.node);
+    if (!ts.isArrayLiteralExpression(array)) return null;
+
+    const elements: ValueRef[] = [];
+    for (const element of array.elements) {
+      if (ts.isSpreadElement(element)) {
+        const spread = this.resolveArray(value.filePath, element.expression, depth + 1, bindings);
+        if (!spread) return null;
+        elements.push(...spread);
+      } else if (!ts.isOmittedExpression(element)) {
+        elements.push({ filePath: value.filePath, node: element });
+      }
+    }
+    return elements;
+  }
+
+  private fold(filePath: string, node: ts.Expression, depth: number, bindings: LoopBindings): string | null {
+    if (depth > MAX_RESOLUTION_DEPTH) return null;
+    const expression = this.unwrap(node);
+
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+      return expression.text;
+    }
+    if (ts.isNumericLiteral(expression)) {
+      return expression.text;
+    }
+
+    if (ts.isTemplateExpression(expression)) {
+      let value = expression.head.text;
+      for (const span of expression.templateSpans) {
+        value += (this.fold(filePath, span.expression, depth + 1, bindings) ?? UNRESOLVED_SEGMENT) + span.literal.text;
+      }
+      return value;
+    }
+
+    if (
+      ts.isBinaryExpression(expression) &&
+      expression.operatorToken.kind === ts.SyntaxKind.PlusToken
+    ) {
+      const left = this.fold(filePath, expression.left, depth + 1, bindings);
+      const right = this.fold(filePath, expression.right, depth + 1, bindings);
+      if (left === null && right === null) return null;
+      return (left ?? UNRESOLVED_SEGMENT) + (right ?? UNRESOLVED_SEGMENT);
+    }
+
+    if (
+      ts.isIdentifier(expression) ||
+      ts.isPropertyAccessExpression(expression) ||
+      ts.isElementAccessExpression(expression)
+    ) {
+      // The value is an expression from a declaration, outside the scope of the loop
+      const value = this.resolveValue(filePath, expression, depth + 1, bindings);
+      if (value && !ts.isEnumDeclaration(value.node)) {
+        return this.fold(value.filePath, value.node, depth + 1, new Map());
+      }
+    }
+
+    // route.method.toLowerCase()
+    if (
+      ts.isCallExpression(expression) &&
+      expression.arguments.length === 0 &&
+      ts.isPropertyAccessExpression(expression.expression) &&
+      CASE_METHODS.has(expression.expression.name.text)
+    ) {
+      const value = this.fold(filePath, expression.expression.expression, depth + 1, bindings);
+      if (value === null) return null;
+      return expression.expression.name.text === 'toLowerCase' ? value.toLowerCase() : value.toUpperCase();
+    }
+
+    return null;
+  }
+
+  /** What a reference (`PATHS`, `PATHS.orders`, `Routes['Users']`) points to */
+  private resolveValue(
+    filePath: string,
+    node: ts.Expression,
+    depth: number,
+    bindings: LoopBindings
+  ): ValueRef | null {
+    if (depth > MAX_RESOLUTION_DEPTH) return null;
+    const expression = this.unwrap(node);
+
+    if (ts.isIdentifier(expression)) {
+      return this.resolveIdentifier(filePath, expression, depth + 1, bindings);
+    }
+
+    if (ts.isPropertyAccessExpression(expression) || ts.isElementAccessExpression(expression)) {
+      const member = this.getAccessedMember(expression);
+      if (member === null) return null;
+
+      // paths.ORDERS where `paths` is a namespace import or require('./paths')
+      if (ts.isPropertyAccessExpression(expression)) {
+        const ref = this.moduleGraph.resolveReference(filePath, expression);
+        const value = ref && this.findTopLevelValue(ref.filePath, ref.name);
+        if (value) return this.deref(value, depth + 1, bindings);
+      }
+
+      const target = this.resolveValue(filePath, expression.expression, depth + 1, bindings);
+      return target ? this.getMember(target, member, depth + 1, bindings) : null;
+    }
+
+    return { filePath, node: expression };
+  }
+
+  private resolveIdentifier(
+    filePath: string,
+    identifier: ts.Identifier,
+    depth: number,
+    bindings: LoopBindings
+  ): ValueRef | null {
+    const bound = bindings.get(identifier.text);
+    if (bound) return this.deref(bound, depth, bindings);
+
+    const local = this.findLocalValue(filePath, identifier);
+    if (local === 'shadowed') return null;
+    if (local) return this.deref(local, depth, bindings);
+
+    const ref = this.moduleGraph.resolveReference(filePath, identifier);
+    if (!ref || (ref.filePath === filePath && ref.name === identifier.text)) return null;
+    const value = this.findTopLevelValue(ref.filePath, ref.name);
+    return value ? this.deref(value, depth, new Map()) : null;
+  }
+
+  /** Follows aliases such as `const R = ROUTES` */
+  private deref(value: ValueRef, depth: number, bindings: LoopBindings): ValueRef | null {
+    if (ts.isEnumDeclaration(value.node)) return value;
+    const node = this.unwrap(value.node);
+    if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) {
+      return this.resolveValue(value.filePath, node, depth + 1, bindings);
+    }
+    return { filePath: value.filePath, node };
+  }
+
+  /** `target.member`; with `follow` false, the property's initializer as written */
+  private getMember(
+    target: ValueRef,
+    member: string,
+    depth: number,
+    bindings: LoopBindings,
+    follow = true
+  ): ValueRef | null {
+    if (ts.isEnumDeclaration(target.node)) {
+      const enumMember = target.node.members.find((m) => this.getPropertyName(m.name) === member);
+      return enumMember?.initializer ? { filePath: target.filePath, node: enumMember.initializer } : null;
+    }
+
+    const node = this.unwrap(target.node);
+    if (!ts.isObjectLiteralExpression(node)) return null;
+
+    // Later properties win, as at runtime
+    for (const prop of [...node.properties].reverse()) {
+      if (ts.isPropertyAssignment(prop) && this.getPropertyName(prop.name) === member) {
+        const value = { filePath: target.filePath, node: prop.initializer };
+        return follow ? this.deref(value, depth, new Map()) : value;
+      }
+      if (ts.isShorthandPropertyAssignment(prop) && prop.name.text === member) {
+        return follow
+          ? this.resolveIdentifier(target.filePath, prop.name, depth + 1, new Map())
+          : { filePath: target.filePath, node: prop.name };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * `const` or enum declaration of `identifier` visible from where it is used;
+   * 'shadowed' when a function parameter or catch binding in between hides
+   * any outer declaration
+   */
+  private findLocalValue(filePath: string, identifier: ts.Identifier): ValueRef | 'shadowed' | null {
+    const name = identifier.text;
+    let node: ts.Node | undefined = identifier.parent;
+
+    while (node) {
+      if (ts.isBlock(node) || ts.isSourceFile(node) || ts.isModuleBlock(node)) {
+        const found = this.findDeclaration(node.statements, name);
+        if (found) return { filePath, node: found };
+      }
+      if (ts.isFunctionLike(node) && node.parameters.some((p) => this.bindsName(p.name, name))) {
+        return 'shadowed';
+      }
+      if (
+        ts.isCatchClause(node) &&
+        node.variableDeclaration &&
+        this.bindsName(node.variableDeclaration.name, name)
+      ) {
+        return 'shadowed';
+      }
+      node = node.parent;
+    }
+    return null;
+  }
+
+  /** Whether a parameter or catch binding, destructured or not, declares `name` */
+  private bindsName(binding: ts.BindingName, name: string): boolean {
+    if (ts.isIdentifier(binding)) return binding.text === name;
+    return binding.elements.some(
+      (element) => !ts.isOmittedExpression(element) && this.bindsName(element.name, name)
+    );
+  }
+
+  private findTopLevelValue(filePath: string, name: string): ValueRef | null {
+    const sourceFile = this.sourceFiles.get(filePath);
+    if (!sourceFile) return null;
+    const found =
+      this.findDeclaration(sourceFile.statements, name) ??
+      this.moduleGraph.getExportedValue(filePath, name);
+    return found ? { filePath, node: found } : null;
+  }
+
+  private findDeclaration(
+    statements: ts.NodeArray<ts.Statement>,
+    name: string
+  ): ts.Expression | ts.EnumDeclaration | null {
+    for (const statement of statements) {
+      if (ts.isEnumDeclaration(statement) && statement.name.text === name) {
+        return statement;
+      }
+      if (
+        ts.isVariableStatement(statement) &&
+        (statement.declarationList.flags & ts.NodeFlags.Const) !== 0
+      ) {
+        const decl = statement.declarationList.declarations.find(
+          (d) => ts.isIdentifier(d.name) && d.name.text === name
+        );
+        if (decl?.initializer) return decl.initializer;
+      }
+    }
+    return null;
+  }
+
+  private getAccessedMember(node: ts.Expression): string | null {
+    if (ts.isPropertyAccessExpression(node)) return node.name.text;
+    if (ts.isElementAccessExpression(node)) return this.getLiteralKey(node.argumentExpression);
+    return null;
+  }
+
+  private getPropertyName(name: ts.PropertyName): string | null {
+    if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+      return name.text;
+    }
+    return null;
+  }
+
+  private getLiteralKey(node: ts.Expression): string | null {
+    return ts.isStringLiteral(node) || ts.isNumericLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)
+      ? node.text
+      : null;
+  }
+
+  private unwrap(node: ts.Expression): ts.Expression {
+    let current = node;
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isNonNullExpression(current) ||
+      ts.isTypeAssertionExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+}
@@ -0,0 +1,364 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile } from './source-file-loader.js';
+import { resolveRelativeModule } from './module-resolution.js';
+
+/** A top-level declaration, identified by its file and local name */
+export interface SymbolRef {
+  filePath: string;
+  name: string;
+}
+
+export interface ImportBinding {
+  specifier: string;
+  /** Export name, `default`, or `*` for namespace imports and whole-module `require()` */
+  importedName: string;
+}
+
+interface ModuleInfo {
+  imports: Map<string, ImportBinding>;
+  /** Export name -> local name */
+  exports: Map<string, string>;
+  /** Export name -> binding in another module (`export { a as b } from './x'`) */
+  reExports: Map<string, ImportBinding>;
+  /** Specifiers of `export * from './x'` */
+  starExports: string[];
+  /** Synthetic local name -> value of CommonJS exports such as `exports.PREFIX = '/api'` */
+  values: Map<string, ts.Expression>;
+}
+
+const MAX_RESOLUTION_DEPTH = 10;
+
+/**
+ * Cross-file view of the ESM and CommonJS import/export bindings of a set of
+ * source files, used to follow an identifier back to the declaration it refers to.
+ * Only relative imports between loaded files are followed.
+ */
+export class ModuleGraph {
+  private modules: Map<string, ModuleInfo> = new Map();
+  private knownFiles: Set<string>;
+
+  constructor(files: LoadedSourceFile[]) {
+    this.knownFiles = new Set(files.map((f) => f.filePath));
+    for (const file of files) {
+      this.modules.set(file.filePath, this.collectModuleInfo(file.sourceFile));
+    }
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.knownFiles.has(filePath);
+  }
+
+  /**
+   * The value of a CommonJS export assigned a literal, template or object
+   * (`exports.PREFIX = '/api'`), for a SymbolRef name `resolveReference` gave
+   */
+  getExportedValue(filePath: string, localName: string): ts.Expression | undefined {
+    return this.modules.get(filePath)?.values.get(localName);
+  }
+
+  /** The import (ESM or `require`) that declares `localName` in `filePath`, if any */
+  getImportBinding(filePath: string, localName: string): ImportBinding | undefined {
+    return this.modules.get(filePath)?.imports.get(localName);
+  }
+
+  /** Specifiers of every import and `require` binding of `filePath` */
+  getImportedSpecifiers(filePath: string): string[] {
+    const imports = this.modules.get(filePath)?.imports;
+    return imports ? [...new Set([...imports.values()].map((b) => b.specifier))] : [];
+  }
+
+  resolveModule(fromFile: string, specifier: string): string | null {
+    return resolveRelativeModule(fromFile, specifier, this.knownFiles);
+  }
+
+  /**
+   * Resolves an expression naming a declaration: a local or imported
+   * identifier, a namespace member (`routes.users`), or an inline
+   * `require('./users')` / `require('./users').router`.
+   * Returns null when it points outside the loaded files.
+   */
+  resolveReference(filePath: string, node: ts.Expression): SymbolRef | null {
+    if (ts.isIdentifier(node)) {
+      return this.resolveLocal(filePath, node.text, 0);
+    }
+
+    const required = this.getRequireSpecifier(node);
+    if (required) {
+      return this.resolveModuleExport(filePath, required, 'default', 0);
+    }
+
+    if (ts.isPropertyAccessExpression(node)) {
+      const member = node.name.text;
+      const target = node.expression;
+
+      const requiredTarget = this.getRequireSpecifier(target);
+      if (requiredTarget) {
+        return this.resolveModuleExport(filePath, requiredTarget, member, 0);
+      }
+
+      if (ts.isIdentifier(target)) {
+        const binding = this.modules.get(filePath)?.imports.get(target.text);
+        if (binding?.importedName === '*') {
+          return this.resolveModuleExport(filePath, binding.specifier, member, 0);
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /** Resolves what `exportName` of `filePath` refers to, following re-exports */
+  resolveExport(filePath: string, exportName: string, depth = 0): SymbolRef | null {
+    const info = this.modules.get(filePath);
+    if (!info || depth > MAX_RESOLUTION_DEPTH) return null;
+
+    const local = info.exports.get(exportName);
+    if (local) {
+      return this.resolveLocal(filePath, local, depth + 1);
+    }
+
+    const reExport = info.reExports.get(exportName);
+    if (reExport) {
+      return this.resolveModuleExport(filePath, reExport.specifier, reExport.importedName, depth + 1);
+    }
+
+    if (exportName !== 'default') {
+      for (const specifier of info.starExports) {
+        const resolved = this.resolveModuleExport(filePath, specifier, exportName, depth + 1);
+        if (resolved) return resolved;
+      }
+    }
+
+    return null;
+  }
+
+  private resolveLocal(filePath: string, name: string, depth: number): SymbolRef | null {
+    const binding = this.modules.get(filePath)?.imports.get(name);
+    if (!binding) {
+      return { filePath, name };
+    }
+    // A namespace used as a value is the module object itself; treat it as the default export
+    const importedName = binding.importedName === '*' ? 'default' : binding.importedName;
+    return this.resolveModuleExport(filePath, binding.specifier, importedName, depth + 1);
+  }
+
+  private resolveModuleExport(
+    fromFile: string,
+    specifier: string,
+    exportName: string,
+    depth: number
+  ): SymbolRef | null {
+    const target = this.resolveModule(fromFile, specifier);
+    return target ? this.resolveExport(target, exportName, depth) : null;
+  }
+
+  private collectModuleInfo(sourceFile: ts.SourceFile): ModuleInfo {
+    const info: ModuleInfo = {
+      imports: new Map(),
+      exports: new Map(),
+      reExports: new Map(),
+      starExports: [],
+      values: new Map(),
+    };
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) {
+        this.collectImportDeclaration(statement, info);
+      } else if (ts.isImportEqualsDeclaration(statement)) {
+        const ref = statement.moduleReference;
+        if (ts.isExternalModuleReference(ref) && ts.isStringLiteral(ref.expression)) {
+          info.imports.set(statement.name.text, { specifier: ref.expression.text, importedName: '*' });
+        }
+      } else if (ts.isExportDeclaration(statement)) {
+        this.collectExportDeclaration(statement, info);
+      } else if (ts.isExportAssignment(statement)) {
+        // export default router / export = router
+        if (ts.isIdentifier(statement.expression)) {
+          info.exports.set('default', statement.expression.text);
+        }
+      } else if (ts.isVariableStatement(statement)) {
+        const exported = this.hasExportModifier(statement);
+        for (const decl of statement.declarationList.declarations) {
+          this.collectRequireBinding(decl, info);
+          if (exported && ts.isIdentifier(decl.name)) {
+            info.exports.set(decl.name.text, decl.name.text);
+          }
+        }
+      } else if (
+        (ts.isFunctionDeclaration(statement) ||
+          ts.isClassDeclaration(statement) ||
+          ts.isEnumDeclaration(statement)) &&
+        statement.name &&
+        this.hasExportModifier(statement)
+      ) {
+        const isDefault = statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword);
+        info.exports.set(isDefault ? 'default' : statement.name.text, statement.name.text);
+      } else if (ts.isExpressionStatement(statement)) {
+        this.collectCommonJsExport(statement.expression, info);
+      }
+    }
+
+    return info;
+  }
+
+  private collectImportDeclaration(statement: ts.ImportDeclaration, info: ModuleInfo): void {
+    if (!ts.isStringLiteral(statement.moduleSpecifier)) return;
+    const specifier = statement.moduleSpecifier.text;
+    const clause = statement.importClause;
+    if (!clause) return;
+
+    if (clause.name) {
+      info.imports.set(clause.name.text, { specifier, importedName: 'default' });
+    }
+
+    const bindings = clause.namedBindings;
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      info.imports.set(bindings.name.text, { specifier, importedName: '*' });
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        info.imports.set(element.name.text, {
+          specifier,
+          importedName: (element.propertyName ?? element.name).text,
+        });
+      }
+    }
+  }
+
+  private collectExportDeclaration(statement: ts.ExportDeclaration, info: ModuleInfo): void {
+    const specifier =
+      statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+        ? statement.moduleSpecifier.text
+        : undefined;
+    const clause = statement.exportClause;
+
+    if (!clause) {
+      if (specifier) info.starExports.push(specifier);
+      return;
+    }
+
+    if (ts.isNamespaceExport(clause)) {
+      if (specifier) info.reExports.set(clause.name.text, { specifier, importedName: '*' });
+      return;
+    }
+
+    for (const element of clause.elements) {
+      const exportName = element.name.text;
+      const localName = (element.propertyName ?? element.name).text;
+      if (specifier) {
+        info.reExports.set(exportName, { specifier, importedName: localName });
+      } else {
+        info.exports.set(exportName, localName);
+      }
+    }
+  }
+
+  /** const x = require('./x'), const { a, b: c } = require('./x'), const x = require('./x').a */
+  private collectRequireBinding(decl: ts.VariableDeclaration, info: ModuleInfo): void {
+    if (!decl.initializer) return;
+
+    let specifier = this.getRequireSpecifier(decl.initializer);
+    let importedName = '*';
+    if (!specifier && ts.isPropertyAccessExpression(decl.initializer)) {
+      specifier = this.getRequireSpecifier(decl.initializer.expression);
+      importedName = decl.initializer.name.text;
+    }
+    if (!specifier) return;
+
+    if (ts.isIdentifier(decl.name)) {
+      info.imports.set(decl.name.text, { specifier, importedName });
+    } else if (ts.isObjectBindingPattern(decl.name) && importedName === '*') {
+      for (const element of decl.name.elements) {
+        if (!ts.isIdentifier(element.name)) continue;
+        const property = element.propertyName && ts.isIdentifier(element.propertyName)
+          ? element.propertyName.text
+          : element.name.text;
+        info.imports.set(element.name.text, { specifier, importedName: property });
+      }
+    }
+  }
+
+  /** module.exports = router, module.exports = { a, b: c }, exports.a = x, module.exports.a = x */
+  private collectCommonJsExport(expression: ts.Expression, info: ModuleInfo): void {
+    if (
+      !ts.isBinaryExpression(expression) ||
+      expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken ||
+      !ts.isPropertyAccessExpression(expression.left)
+    ) {
+      return;
+    }
+
+    const left = expression.left;
+    const right = expression.right;
+    const isModuleExports = (node: ts.Expression): boolean =>
+      ts.isPropertyAccessExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'module' &&
+      node.name.text === 'exports';
+
+    if (isModuleExports(left)) {
+      if (ts.isObjectLiteralExpression(right)) {
+        for (const prop of right.properties) {
+          if (ts.isShorthandPropertyAssignment(prop)) {
+            info.exports.set(prop.name.text, prop.name.text);
+          } else if (
+            ts.isPropertyAssignment(prop) &&
+            (ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name))
+          ) {
+            this.setCommonJsExport(info, prop.name.text, prop.initializer);
+          }
+        }
+      }
+      this.setCommonJsExport(info, 'default', right);
+      return;
+    }
+
+    const target = left.expression;
+    const isExportsObject =
+      (ts.isIdentifier(target) && target.text === 'exports') || isModuleExports(target);
+    if (isExportsObject) {
+      this.setCommonJsExport(info, left.name.text, right);
+    }
+  }
+
+  /**
+   * An identifier exports the declaration it names; a literal, template or
+   * object is kept as the value of a synthetic `exports.<name>` local
+   */
+  private setCommonJsExport(info: ModuleInfo, exportName: string, value: ts.Expression): void {
+    if (ts.isIdentifier(value)) {
+      info.exports.set(exportName, value.text);
+    } else if (
+      ts.isStringLiteral(value) ||
+      ts.isNoSubstitutionTemplateLiteral(value) ||
+      ts.isTemplateExpression(value) ||
+      ts.isNumericLiteral(value) ||
+      ts.isObjectLiteralExpression(value) ||
+      ts.isArrayLiteralExpression(value) ||
+      ts.isBinaryExpression(value)
+    ) {
+      const local = `exports.${exportName}`;
+      info.exports.set(exportName, local);
+      info.values.set(local, value);
+    }
+  }
+
+  private getRequireSpecifier(node: ts.Expression): string | null {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'require' &&
+      node.arguments.length === 1 &&
+      ts.isStringLiteral(node.arguments[0])
+    ) {
+      return node.arguments[0].text;
+    }
+    return null;
+  }
+
+  private hasExportModifier(node: ts.Node): boolean {
+    return (
+      ts.canHaveModifiers(node) &&
+      (ts.getModifiers(node) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+    );
+  }
+}
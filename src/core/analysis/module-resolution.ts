@@ -0,0 +1,32 @@
+import * as path from 'path';
+
+const RESOLVABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Resolves a relative import specifier against a set of known source files,
+ * the way Node/TypeScript would: exact match, extension probing (including
+ * ESM `./routes.js` pointing at `routes.ts`) and directory `index` files.
+ * Package imports and path aliases are not resolved.
+ */
+export function resolveRelativeModule(
+  fromFile: string,
+  specifier: string,
+  knownFiles: Set<string>
+): string | null {
+  if (!specifier.startsWith('.')) return null;
+
+  const base = path.resolve(path.dirname(fromFile), specifier);
+  if (knownFiles.has(base)) return base;
+
+  const ext = path.extname(base);
+  const withoutExt = RESOLVABLE_EXTENSIONS.includes(ext) ? base.slice(0, -ext.length) : base;
+
+  for (const candidateExt of RESOLVABLE_EXTENSIONS) {
+    if (knownFiles.has(withoutExt + candidateExt)) return withoutExt + candidateExt;
+  }
+  for (const candidateExt of RESOLVABLE_EXTENSIONS) {
+    const index = path.join(base, `index${candidateExt}`);
+    if (knownFiles.has(index)) return index;
+  }
+  return null;
+}
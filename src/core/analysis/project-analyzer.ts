@@ -1,17 +1,31 @@
 import { Endpoint } from '../models/endpoint.js';
 import { Finding } from '../models/finding.js';
 import { ScanResult, createScanResult } from '../models/scan-result.js';
-import { SourceFileLoader, LoadedSourceFile } from './source-file-loader.js';
+import {
+  SourceFileLoader,
+  SourceFileLoaderOptions,
+  LoadedSourceFile,
+} from './source-file-loader.js';
 import { EndpointDiscoverer } from '../discovery/discoverer-interface.js';
+import { ChangedFileResolver } from './changed-file-resolver.js';
+import { InlineSuppressionParser } from '../configuration/inline-suppression-parser.js';
 import { SecurityRule } from '../../rules/rule-interface.js';
 
+export interface AnalyzeOptions {
+  /**
+   * Restrict the scan to files changed since a git ref (absolute paths) and
+   * their mount neighbourhood; endpoints in files that merely mount them are dropped.
+   */
+  changedSince?: { ref: string; files: string[] };
+}
+
 export class ProjectAnalyzer {
   private sourceLoader: SourceFileLoader;
   private discoverers: EndpointDiscoverer[] = [];
   private rules: SecurityRule[] = [];
 
-  constructor() {
-    this.sourceLoader = new SourceFileLoader();
+  constructor(loaderOptions: SourceFileLoaderOptions = {}) {
+    this.sourceLoader = new SourceFileLoader(loaderOptions);
   }
 
   registerDiscoverer(discoverer: EndpointDiscoverer): void {
@@ -26,22 +40,47 @@ export class ProjectAnalyzer {
     this.rules.push(...rules);
   }
 
-  async analyze(projectPath: string): Promise<ScanResult> {
+  async analyze(projectPath: string, options: AnalyzeOptions = {}): Promise<ScanResult> {
     const startTime = Date.now();
 
-    const sourceFiles = await this.sourceLoader.loadDirectory(projectPath);
-
-    const endpoints = await this.discoverEndpoints(sourceFiles);
+    const allFiles = await this.sourceLoader.findFiles(projectPath);
+    const changeSet = options.changedSince
+      ? new ChangedFileResolver().resolve(allFiles, options.changedSince.files)
+      : undefined;
+
+    const sourceFiles = await this.sourceLoader.loadFiles(changeSet?.scanFiles ?? allFiles);
+
+    let endpoints = await this.discoverEndpoints(sourceFiles);
+    let diagnostics = this.discoverers.flatMap((d) => d.getDiagnostics?.() ?? []);
+    let excludedEndpoints = 0;
+    if (changeSet) {
+      const affectedFiles = new Set(changeSet.affectedFiles);
+      const affected = endpoints.filter((e) => affectedFiles.has(e.location.filePath));
+      excludedEndpoints = endpoints.length - affected.length;
+      endpoints = affected;
+      diagnostics = diagnostics.filter((d) => affectedFiles.has(d.location.filePath));
+    }
     const findings = this.evaluateRules(endpoints);
 
+    const suppressionParser = new InlineSuppressionParser();
+    const inlineSuppressions = sourceFiles.flatMap((file) => suppressionParser.parse(file));
+
     const scanDurationMs = Date.now() - startTime;
 
     return createScanResult({
       projectPath,
       endpoints,
       findings,
+      inlineSuppressions,
       filesScanned: sourceFiles.length,
       scanDurationMs,
+      diagnostics,
+      changeScope: options.changedSince && changeSet && {
+        since: options.changedSince.ref,
+        changedFiles: changeSet.changedFiles,
+        affectedFiles: changeSet.affectedFiles,
+        excludedEndpoints,
+      },
     });
   }
 
@@ -51,6 +90,7 @@ export class ProjectAnalyzer {
     const endpoints: Endpoint[] = [];
 
     for (const discoverer of this.discoverers) {
+      await discoverer.prepare?.(sourceFiles);
       for (const file of sourceFiles) {
         const discovered = await discoverer.discover(file);
         endpoints.push(...discovered);
@@ -12,10 +12,16 @@ export interface LoadedSourceFile {
 export interface SourceFileLoaderOptions {
   extensions?: string[];
   excludePatterns?: string[];
+  /** Extra exclude globs appended to `excludePatterns` (e.g. from .apiposture.json) */
+  additionalExcludePatterns?: string[];
+  /** Globs to scan instead of every file with a known extension */
+  includePatterns?: string[];
 }
 
 const defaultOptions: Required<SourceFileLoaderOptions> = {
   extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'],
+  additionalExcludePatterns: [],
+  includePatterns: [],
   excludePatterns: [
     '**/node_modules/**',
     '**/dist/**',
@@ -34,35 +40,54 @@ export class SourceFileLoader {
   private cache: Map<string, LoadedSourceFile> = new Map();
 
   constructor(options: SourceFileLoaderOptions = {}) {
-    this.options = { ...defaultOptions, ...options };
+    // Ignore keys explicitly set to undefined so they don't clobber the defaults
+    const provided = Object.fromEntries(
+      Object.entries(options).filter(([, value]) => value !== undefined)
+    );
+    this.options = { ...defaultOptions, ...provided };
   }
 
   async loadDirectory(dirPath: string): Promise<LoadedSourceFile[]> {
+    return this.loadFiles(await this.findFiles(dirPath));
+  }
+
+  /** Lists the source files `loadDirectory` would load, without parsing them */
+  async findFiles(dirPath: string): Promise<string[]> {
     const absolutePath = path.resolve(dirPath);
 
     if (!fs.existsSync(absolutePath)) {
       throw new Error(`Directory not found: ${absolutePath}`);
     }
 
-    const patterns = this.options.extensions.map(
-      (ext) => `**/*${ext}`
-    );
+    const patterns = this.options.includePatterns.length > 0
+      ? this.options.includePatterns
+      : this.options.extensions.map((ext) => `**/*${ext}`);
+    const ignore = [
+      ...this.options.excludePatterns,
+      ...this.options.additionalExcludePatterns,
+    ];
 
     const files: string[] = [];
     for (const pattern of patterns) {
       const matches = await glob(pattern, {
         cwd: absolutePath,
-        ignore: this.options.excludePatterns,
+        ignore,
         absolute: true,
         nodir: true,
       });
       files.push(...matches);
     }
 
-    const uniqueFiles = [...new Set(files)];
+    // Include patterns may match non-source files; only parse known extensions
+    return [...new Set(files)].filter((f) =>
+      this.options.extensions.includes(path.extname(f).toLowerCase())
+    );
+  }
+
+  async loadFiles(filePaths: string[]): Promise<LoadedSourceFile[]> {
     const loadedFiles: LoadedSourceFile[] = [];
 
-    for (const filePath of uniqueFiles) {
+    for (const filePath of filePaths) {
       try {
         const loaded = await this.loadFile(filePath);
         if (loaded) {
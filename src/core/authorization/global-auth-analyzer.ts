@@ -1,29 +1,62 @@
 import * as ts from 'typescript';
 import { LoadedSourceFile, findNodes } from '../analysis/source-file-loader.js';
+import { ConstantResolver, UNRESOLVED_SEGMENT, ValueRef } from '../analysis/constant-resolver.js';
+import { HttpMethod, parseHttpMethod } from '../models/http-method.js';
+
+/** A route `setGlobalPrefix(prefix, { exclude })` leaves unprefixed; no method means every method */
+export interface GlobalPrefixExclusion {
+  path: string;
+  method?: HttpMethod;
+}
+
+/** `app.enableVersioning({ type: VersioningType.URI, prefix, defaultVersion })` */
+export interface UriVersioning {
+  /** Put before the version number, `v` unless configured otherwise */
+  prefix: string;
+  /** Versions of controllers and handlers that don't declare one; '' is VERSION_NEUTRAL */
+  defaultVersions: string[];
+}
 
 export interface GlobalAuthConfig {
   hasGlobalGuard: boolean;
-  globalGuardName?: string;
+  /** Guards from `app.useGlobalGuards(...)` and `APP_GUARD` providers, auth-related or not */
+  globalGuardNames: string[];
+  /** The `APP_GUARD` providers alone; unlike `useGlobalGuards()` they also cover gateways and microservices */
+  appGuardNames: string[];
+  /** Where each global guard's class is named, to find its declaration through imports */
+  guardReferences: Map<string, ValueRef>;
   hasGlobalPrefix: boolean;
   globalPrefix?: string;
+  globalPrefixExclude: GlobalPrefixExclusion[];
+  uriVersioning?: UriVersioning;
 }
 
+const DEFAULT_VERSION_PREFIX = 'v';
+
 export class GlobalAuthAnalyzer {
-  analyze(files: LoadedSourceFile[]): GlobalAuthConfig {
+  analyze(files: LoadedSourceFile[], constants = new ConstantResolver(files)): GlobalAuthConfig {
     const config: GlobalAuthConfig = {
       hasGlobalGuard: false,
+      globalGuardNames: [],
+      appGuardNames: [],
+      guardReferences: new Map(),
       hasGlobalPrefix: false,
+      globalPrefixExclude: [],
     };
 
     for (const file of files) {
-      this.analyzeFile(file, config);
+      this.analyzeFile(file, config, constants);
     }
 
     return config;
   }
 
-  private analyzeFile(file: LoadedSourceFile, config: GlobalAuthConfig): void {
-    const { sourceFile } = file;
+  private analyzeFile(
+    file: LoadedSourceFile,
+    config: GlobalAuthConfig,
+    constants: ConstantResolver
+  ): void {
+    const { sourceFile, filePath } = file;
 
     // Look for app.useGlobalGuards() calls
     const callExpressions = findNodes(sourceFile, ts.isCallExpression);
@@ -35,12 +68,11 @@ export class GlobalAuthAnalyzer {
         const methodName = propAccess.name.text;
 
         if (methodName === 'useGlobalGuards') {
-          config.hasGlobalGuard = true;
-          // Try to extract guard name
-          if (callExpr.arguments.length > 0) {
-            const arg = callExpr.arguments[0];
-            if (ts.isNewExpression(arg) && ts.isIdentifier(arg.expression)) {
-              config.globalGuardName = arg.expression.text;
+          // app.useGlobalGuards(new JwtAuthGuard(reflector), app.get(RolesGuard))
+          for (const arg of callExpr.arguments) {
+            const guard = this.getGuardIdentifier(arg);
+            if (guard) {
+              this.addGlobalGuard(config, guard, filePath);
             }
           }
         }
@@ -49,45 +81,146 @@ export class GlobalAuthAnalyzer {
           config.hasGlobalPrefix = true;
           if (callExpr.arguments.length > 0) {
             const arg = callExpr.arguments[0];
-            if (ts.isStringLiteral(arg)) {
-              config.globalPrefix = arg.text;
-            }
+            config.globalPrefix = constants.resolveString(filePath, arg) ?? UNRESOLVED_SEGMENT;
+          }
+          // app.setGlobalPrefix('api', { exclude: ['health', { path: 'metrics', method: RequestMethod.GET }] })
+          const options = callExpr.arguments[1];
+          const exclude = options && this.getProperty(options, 'exclude');
+          config.globalPrefixExclude = exclude
+            ? this.getPrefixExclusions(exclude, filePath, constants)
+            : [];
+        }
+
+        if (methodName === 'enableVersioning') {
+          const options = callExpr.arguments[0];
+          const type = options && this.getProperty(options, 'type');
+          if (type && ts.isPropertyAccessExpression(type) && type.name.text === 'URI') {
+            config.uriVersioning = this.getUriVersioning(options, filePath, constants);
           }
         }
       }
+    }
+
+    // Check for APP_GUARD provider pattern, usually in @Module({ providers: [...] })
+    // { provide: APP_GUARD, useClass: AuthGuard }
+    for (const objLiteral of findNodes(sourceFile, ts.isObjectLiteralExpression)) {
+      let hasAppGuard = false;
+      let guard: ts.Identifier | undefined;
 
-      // Check for APP_GUARD provider pattern
-      // { provide: APP_GUARD, useClass: AuthGuard }
-      if (
-        callExpr.arguments.length > 0 &&
-        ts.isObjectLiteralExpression(callExpr.arguments[0])
-      ) {
-        const objLiteral = callExpr.arguments[0];
-        let hasAppGuard = false;
-        let guardName: string | undefined;
-
-        for (const prop of objLiteral.properties) {
-          if (ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name)) {
-            if (prop.name.text === 'provide') {
-              if (ts.isIdentifier(prop.initializer)) {
-                if (prop.initializer.text === 'APP_GUARD') {
-                  hasAppGuard = true;
-                }
+      for (const prop of objLiteral.properties) {
+        if (ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name)) {
+          if (prop.name.text === 'provide') {
+            if (ts.isIdentifier(prop.initializer)) {
+              if (prop.initializer.text === 'APP_GUARD') {
+                hasAppGuard = true;
               }
             }
-            if (prop.name.text === 'useClass') {
-              if (ts.isIdentifier(prop.initializer)) {
-                guardName = prop.initializer.text;
-              }
+          }
+          if (prop.name.text === 'useClass' || prop.name.text === 'useExisting') {
+            if (ts.isIdentifier(prop.initializer)) {
+              guard = prop.initializer;
             }
           }
         }
+      }
 
-        if (hasAppGuard && guardName) {
-          config.hasGlobalGuard = true;
-          config.globalGuardName = guardName;
+      if (hasAppGuard && guard) {
+        this.addGlobalGuard(config, guard, filePath);
+        if (!config.appGuardNames.includes(guard.text)) {
+          config.appGuardNames.push(guard.text);
         }
       }
     }
   }
+
+  private getPrefixExclusions(
+    exclude: ts.Expression,
+    filePath: string,
+    constants: ConstantResolver
+  ): GlobalPrefixExclusion[] {
+    const exclusions: GlobalPrefixExclusion[] = [];
+    for (const element of ts.isArrayLiteralExpression(exclude) ? exclude.elements : []) {
+      const pathNode = ts.isObjectLiteralExpression(element) ? this.getProperty(element, 'path') : element;
+      const path = pathNode && constants.resolveString(filePath, pathNode);
+      if (path === null || path === undefined) continue;
+
+      // RequestMethod.GET; RequestMethod.ALL or no method excludes every method
+      const methodNode = ts.isObjectLiteralExpression(element) ? this.getProperty(element, 'method') : undefined;
+      const method =
+        methodNode && ts.isPropertyAccessExpression(methodNode)
+          ? parseHttpMethod(methodNode.name.text)
+          : undefined;
+      exclusions.push({ path, method: method === HttpMethod.ALL ? undefined : method });
+    }
+    return exclusions;
+  }
+
+  private getUriVersioning(
+    options: ts.Expression,
+    filePath: string,
+    constants: ConstantResolver
+  ): UriVersioning {
+    // prefix: false drops the `v`
+    const prefixNode = this.getProperty(options, 'prefix');
+    const prefix = !prefixNode
+      ? DEFAULT_VERSION_PREFIX
+      : prefixNode.kind === ts.SyntaxKind.FalseKeyword
+        ? ''
+        : (constants.resolveString(filePath, prefixNode) ?? DEFAULT_VERSION_PREFIX);
+
+    const defaultVersion = this.getProperty(options, 'defaultVersion');
+    return {
+      prefix,
+      defaultVersions: defaultVersion ? resolveVersions(defaultVersion, filePath, constants) : [],
+    };
+  }
+
+  private getProperty(node: ts.Expression, name: string): ts.Expression | undefined {
+    if (!ts.isObjectLiteralExpression(node)) return undefined;
+    for (const prop of node.properties) {
+      if (ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) && prop.name.text === name) {
+        return prop.initializer;
+      }
+    }
+    return undefined;
+  }
+
+  /** The guard class of `new JwtAuthGuard()`, `JwtAuthGuard` or `app.get(JwtAuthGuard)` */
+  private getGuardIdentifier(arg: ts.Expression): ts.Identifier | undefined {
+    if (ts.isNewExpression(arg) && ts.isIdentifier(arg.expression)) {
+      return arg.expression;
+    }
+    if (ts.isIdentifier(arg)) {
+      return arg;
+    }
+    if (ts.isCallExpression(arg) && arg.arguments.length > 0 && ts.isIdentifier(arg.arguments[0])) {
+      return arg.arguments[0];
+    }
+    return undefined;
+  }
+
+  private addGlobalGuard(config: GlobalAuthConfig, guard: ts.Identifier, filePath: string): void {
+    config.hasGlobalGuard = true;
+    if (!config.globalGuardNames.includes(guard.text)) {
+      config.globalGuardNames.push(guard.text);
+      config.guardReferences.set(guard.text, { filePath, node: guard });
+    }
+  }
+}
+
+/**
+ * Versions named by a `version`/`defaultVersion` option or `@Version()`:
+ * '1', ['1', '2'] or VERSION_NEUTRAL (returned as '').
+ */
+export function resolveVersions(
+  node: ts.Expression,
+  filePath: string,
+  constants: ConstantResolver
+): string[] {
+  const elements = ts.isArrayLiteralExpression(node) ? [...node.elements] : [node];
+  return elements.map((element) =>
+    ts.isIdentifier(element) && element.text === 'VERSION_NEUTRAL'
+      ? ''
+      : (constants.resolveString(filePath, element) ?? UNRESOLVED_SEGMENT)
+  );
 }
@@ -4,22 +4,11 @@ import {
   createDefaultAuthorizationInfo,
   determineClassification,
 } from '../models/authorization-info.js';
-import {
-  getDecoratorName,
-  getDecoratorArguments,
-  getStringLiteralValue,
-  getArrayLiteralElements,
-} from '../analysis/source-file-loader.js';
-
-// Auth guard patterns
-const AUTH_GUARD_PATTERNS = [
-  /AuthGuard/i,
-  /JwtAuthGuard/i,
-  /LocalAuthGuard/i,
-  /SessionGuard/i,
-  /BearerGuard/i,
-  /TokenGuard/i,
-];
+import { getStringLiteralValue } from '../analysis/source-file-loader.js';
+import { ConstantResolver, ValueRef } from '../analysis/constant-resolver.js';
+import { GuardKind } from '../models/guard-kind.js';
+import type { AppliedDecorator } from './nestjs-decorator-resolver.js';
+import { NestJSGuardClassifier, classifyGuardName } from './nestjs-guard-classifier.js';
 
 // Public decorator names
 const PUBLIC_DECORATORS = new Set([
@@ -36,141 +25,175 @@ const ROLE_DECORATORS = new Set(['Roles', 'RequireRoles', 'HasRoles', 'Authorize
 // Policy decorator names
 const POLICY_DECORATORS = new Set(['Policies', 'RequirePolicies', 'CheckPolicies']);
 
+/** Whether the extractor interprets a decorator by this name */
+export function isNestJSAuthDecorator(name: string): boolean {
+  return (
+    name === 'UseGuards' ||
+    PUBLIC_DECORATORS.has(name) ||
+    ROLE_DECORATORS.has(name) ||
+    POLICY_DECORATORS.has(name)
+  );
+}
+
+/** A guard by name, with its identifier where it is used when known */
+export interface GuardRef {
+  name: string;
+  reference?: ValueRef;
+}
+
+/** What the decorators of one class or one method declare */
+export interface DecoratorAuthInfo {
+  guards: GuardRef[];
+  roles: string[];
+  policies: string[];
+  isPublic: boolean;
+}
+
 export interface NestJSAuthContext {
-  classGuards?: string[];
-  classRoles?: string[];
-  isPublic?: boolean;
+  /** App-wide guards; they run for every route unless it is marked @Public() */
+  globalGuards?: GuardRef[];
+  /** Decorators of the controller, interpreted the same way as the method's */
+  classDecorators?: AppliedDecorator[];
+  /** Resolves role and policy names given as constants or enum members (`Role.Admin`) */
+  constants?: ConstantResolver;
+  /** Tells authentication guards from role checks and throttling; by name when absent */
+  guards?: NestJSGuardClassifier;
 }
 
 export class NestJSAuthExtractor {
   extract(
-    decorators: ts.Decorator[],
+    decorators: AppliedDecorator[],
     context?: NestJSAuthContext
   ): AuthorizationInfo {
     const auth = createDefaultAuthorizationInfo();
-
-    // Apply class-level auth first
-    if (context?.classGuards) {
-      for (const guard of context.classGuards) {
-        if (this.isAuthGuard(guard)) {
+    const classAuth = this.interpret(context?.classDecorators ?? [], context?.constants);
+    const methodAuth = this.interpret(decorators, context?.constants);
+
+    // Global guards skip routes that opt out via @Public() metadata, so that is
+    // explicit public intent rather than a conflict
+    if (context?.globalGuards && !classAuth.isPublic && !methodAuth.isPublic) {
+      for (const guard of context.globalGuards) {
+        if (this.isAuthGuard(guard, context.guards)) {
           auth.isAuthenticated = true;
-          auth.guardNames.push(guard);
+          auth.guardNames.push(guard.name);
         }
       }
     }
 
-    if (context?.classRoles) {
-      auth.roles.push(...context.classRoles);
-      if (context.classRoles.length > 0) {
-        auth.isAuthenticated = true;
-      }
-    }
+    // Apply class-level auth first, then method-level
+    this.apply(classAuth, auth, context?.guards);
+    this.apply(methodAuth, auth, context?.guards);
 
-    if (context?.isPublic) {
-      auth.isExplicitlyPublic = true;
-    }
-
-    // Process method-level decorators (can override class-level)
-    for (const decorator of decorators) {
-      this.processDecorator(decorator, auth);
-    }
-
-    // Method-level @Public overrides class-level guards
-    const hasMethodPublic = decorators.some((d) => {
-      const name = getDecoratorName(d);
-      return name && PUBLIC_DECORATORS.has(name);
-    });
-
-    if (hasMethodPublic) {
-      auth.isExplicitlyPublic = true;
-      // Don't clear isAuthenticated as it creates the AP003 conflict scenario
-    }
+    // Method-level @Public overrides class-level guards.
+    // Don't clear isAuthenticated as it creates the AP003 conflict scenario
+    auth.isExplicitlyPublic = classAuth.isPublic || methodAuth.isPublic;
 
     auth.classification = determineClassification(auth);
     return auth;
   }
 
-  private processDecorator(decorator: ts.Decorator, auth: AuthorizationInfo): void {
-    const name = getDecoratorName(decorator);
-    if (!name) return;
+  /** Guards, roles, policies and public markers declared by a class's or a method's decorators */
+  interpret(decorators: AppliedDecorator[], constants?: ConstantResolver): DecoratorAuthInfo {
+    const info: DecoratorAuthInfo = { guards: [], roles: [], policies: [], isPublic: false };
 
-    // Check for @Public or similar
-    if (PUBLIC_DECORATORS.has(name)) {
-      auth.isExplicitlyPublic = true;
-      return;
-    }
+    for (const decorator of decorators) {
+      const name = decorator.name;
 
-    // Check for @UseGuards
-    if (name === 'UseGuards') {
-      const args = getDecoratorArguments(decorator);
-      for (const arg of args) {
-        if (ts.isIdentifier(arg)) {
-          const guardName = arg.text;
-          if (this.isAuthGuard(guardName)) {
-            auth.isAuthenticated = true;
-          }
-          auth.guardNames.push(guardName);
-        }
-        // Handle UseGuards(AuthGuard('jwt'))
-        if (ts.isCallExpression(arg)) {
-          if (ts.isIdentifier(arg.expression)) {
-            const guardName = arg.expression.text;
-            if (this.isAuthGuard(guardName)) {
-              auth.isAuthenticated = true;
-            }
-            auth.guardNames.push(guardName);
-          }
-        }
+      // Check for @Public or similar
+      if (PUBLIC_DECORATORS.has(name)) {
+        info.isPublic = true;
       }
-      return;
-    }
 
-    // Check for @Roles
-    if (ROLE_DECORATORS.has(name)) {
-      const args = getDecoratorArguments(decorator);
-      for (const arg of args) {
-        // @Roles('admin', 'user')
-        const value = getStringLiteralValue(arg);
-        if (value) {
-          auth.roles.push(value);
-          auth.isAuthenticated = true;
-        }
-        // @Roles(['admin', 'user'])
-        const arrayElements = getArrayLiteralElements(arg);
-        for (const elem of arrayElements) {
-          const elemValue = getStringLiteralValue(elem);
-          if (elemValue) {
-            auth.roles.push(elemValue);
-            auth.isAuthenticated = true;
+      // @UseGuards(JwtAuthGuard, AuthGuard('jwt'))
+      if (name === 'UseGuards') {
+        for (const arg of decorator.args) {
+          const identifier = this.getGuardIdentifier(arg.node);
+          if (identifier) {
+            info.guards.push({
+              name: identifier.text,
+              reference: { filePath: arg.filePath, node: identifier },
+            });
           }
         }
       }
-      return;
+
+      // @Roles('admin', Role.Editor) or @Roles(['admin', 'user'])
+      if (ROLE_DECORATORS.has(name)) {
+        info.roles.push(...decorator.args.flatMap((arg) => this.resolveNames(arg, constants)));
+      }
+
+      // @Policies('orders:write')
+      if (POLICY_DECORATORS.has(name)) {
+        info.policies.push(...decorator.args.flatMap((arg) => this.resolveNames(arg, constants)));
+      }
     }
 
-    // Check for @Policies
-    if (POLICY_DECORATORS.has(name)) {
-      const args = getDecoratorArguments(decorator);
-      for (const arg of args) {
-        const value = getStringLiteralValue(arg);
-        if (value) {
-          auth.policies.push(value);
-          auth.isAuthenticated = true;
-        }
-        const arrayElements = getArrayLiteralElements(arg);
-        for (const elem of arrayElements) {
-          const elemValue = getStringLiteralValue(elem);
-          if (elemValue) {
-            auth.policies.push(elemValue);
-            auth.isAuthenticated = true;
-          }
-        }
+    return info;
+  }
+
+  private apply(
+    info: DecoratorAuthInfo,
+    auth: AuthorizationInfo,
+    classifier?: NestJSGuardClassifier
+  ): void {
+    // Only authentication guards make a route authenticated; all are listed
+    for (const guard of info.guards) {
+      if (this.isAuthGuard(guard, classifier)) {
+        auth.isAuthenticated = true;
       }
-      return;
+      auth.guardNames.push(guard.name);
+    }
+
+    auth.roles.push(...info.roles);
+    auth.policies.push(...info.policies);
+    if (info.roles.length > 0 || info.policies.length > 0) {
+      auth.isAuthenticated = true;
+    }
+  }
+
+  /** The guard class of `JwtAuthGuard`, `AuthGuard('jwt')` or `new JwtAuthGuard()` */
+  private getGuardIdentifier(node: ts.Expression | ts.EnumDeclaration): ts.Identifier | null {
+    if (ts.isIdentifier(node)) {
+      return node;
     }
+    if ((ts.isCallExpression(node) || ts.isNewExpression(node)) && ts.isIdentifier(node.expression)) {
+      return node.expression;
+    }
+    return null;
+  }
+
+  /**
+   * Role or policy names of one argument: string literals, constants and enum
+   * members, arrays and spreads of them. A reference that can't be resolved is
+   * named after the member or constant (`Role.Admin` -> 'Admin').
+   */
+  private resolveNames(arg: ValueRef, constants?: ConstantResolver): string[] {
+    const node = arg.node;
+    if (ts.isEnumDeclaration(node)) return [];
+
+    const elements = ts.isArrayLiteralExpression(node)
+      ? [...node.elements].map((element) => ({ filePath: arg.filePath, node: element }))
+      : ts.isSpreadElement(node)
+        ? constants?.resolveElements(arg.filePath, node.expression)
+        : undefined;
+    if (elements) {
+      return elements.flatMap((element) => this.resolveNames(element, constants));
+    }
+
+    const value = constants
+      ? constants.resolveString(arg.filePath, node)
+      : getStringLiteralValue(node);
+    if (value) return [value];
+
+    if (ts.isPropertyAccessExpression(node)) return [node.name.text];
+    if (ts.isIdentifier(node)) return [node.text];
+    return [];
   }
 
-  private isAuthGuard(guardName: string): boolean {
-    return AUTH_GUARD_PATTERNS.some((pattern) => pattern.test(guardName));
+  private isAuthGuard(guard: GuardRef, classifier?: NestJSGuardClassifier): boolean {
+    const kind = classifier
+      ? classifier.classify(guard.name, guard.reference)
+      : classifyGuardName(guard.name);
+    return kind === GuardKind.Authentication;
   }
 }
@@ -0,0 +1,190 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile, getDecorators } from '../analysis/source-file-loader.js';
+import { ValueRef } from '../analysis/constant-resolver.js';
+import { ProjectContext } from '../discovery/project-context.js';
+import { isNestJSAuthDecorator } from './nestjs-auth-extractor.js';
+
+/** A decorator as it applies to a class or method, after expanding composite decorators */
+export interface AppliedDecorator {
+  name: string;
+  /** Arguments, each in the file it is written in */
+  args: ValueRef[];
+}
+
+/** A decorator factory: `const Auth = (...roles) => applyDecorators(...)` */
+interface DecoratorFactory {
+  filePath: string;
+  parameters: readonly ts.ParameterDeclaration[];
+  body: ts.Expression;
+}
+
+/** Factory parameter name -> the arguments it receives (all remaining ones for `...rest`) */
+type ParameterBindings = Map<string, ValueRef[]>;
+
+const MAX_EXPANSION_DEPTH = 10;
+
+const PUBLIC_METADATA_KEY = /public|anonymous|skip.?auth|no.?auth/i;
+const ROLES_METADATA_KEY = /role/i;
+const POLICIES_METADATA_KEY = /polic|permission/i;
+
+/**
+ * Expands project-defined decorators into the decorators they apply, following
+ * their definitions across files:
+ *
+ * ```ts
+ * export const Auth = (...roles: string[]) => applyDecorators(UseGuards(JwtGuard), Roles(...roles));
+ * export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
+ * @Auth('admin')   // UseGuards(JwtGuard) + Roles('admin')
+ * ```
+ *
+ * `SetMetadata()` becomes `Public`, `Roles` or `Policies` depending on its key.
+ * Decorators the auth extractor already knows by name are kept as they are.
+ */
+export class NestJSDecoratorResolver {
+  private context: ProjectContext;
+  private sourceFiles: Map<string, ts.SourceFile>;
+
+  constructor(files: LoadedSourceFile[], context: ProjectContext) {
+    this.context = context;
+    this.sourceFiles = new Map(files.map((f) => [f.filePath, f.sourceFile]));
+  }
+
+  resolve(node: ts.Node, filePath: string): AppliedDecorator[] {
+    return getDecorators(node).flatMap((decorator) =>
+      this.expand(decorator.expression, filePath, new Map(), 0)
+    );
+  }
+
+  private expand(
+    expression: ts.Expression,
+    filePath: string,
+    parameters: ParameterBindings,
+    depth: number
+  ): AppliedDecorator[] {
+    if (depth > MAX_EXPANSION_DEPTH) return [];
+
+    const callee = ts.isCallExpression(expression) ? expression.expression : expression;
+    if (!ts.isIdentifier(callee)) return [];
+    const name = callee.text;
+    const rawArgs = ts.isCallExpression(expression) ? [...expression.arguments] : [];
+
+    // applyDecorators(UseGuards(JwtGuard), Roles(...roles)): each argument is a decorator
+    if (name === 'applyDecorators') {
+      return rawArgs.flatMap((arg) => this.expand(arg, filePath, parameters, depth + 1));
+    }
+
+    const args = this.substitute(rawArgs, filePath, parameters);
+    if (name === 'SetMetadata') {
+      return this.fromMetadata(args);
+    }
+    if (isNestJSAuthDecorator(name)) {
+      return [{ name, args }];
+    }
+
+    const factory = this.findFactory(filePath, callee);
+    if (!factory) {
+      // Defined outside the project (@nestjs/common, @nestjs/swagger, ...)
+      return [{ name, args }];
+    }
+    return this.expand(
+      factory.body,
+      factory.filePath,
+      this.bindParameters(factory, args),
+      depth + 1
+    );
+  }
+
+  /** Replaces factory parameters (`roles`, `...roles`) with what the factory was called with */
+  private substitute(
+    args: ts.Expression[],
+    filePath: string,
+    parameters: ParameterBindings
+  ): ValueRef[] {
+    return args.flatMap((arg): ValueRef[] => {
+      // SetMetadata('permissions', [permission]): list elements count like separate arguments
+      if (ts.isArrayLiteralExpression(arg)) {
+        return this.substitute([...arg.elements], filePath, parameters);
+      }
+      const reference = ts.isSpreadElement(arg) ? arg.expression : arg;
+      const bound = ts.isIdentifier(reference) ? parameters.get(reference.text) : undefined;
+      return bound ?? [{ filePath, node: arg }];
+    });
+  }
+
+  private bindParameters(factory: DecoratorFactory, args: ValueRef[]): ParameterBindings {
+    const bindings: ParameterBindings = new Map();
+    factory.parameters.forEach((parameter, index) => {
+      if (!ts.isIdentifier(parameter.name)) return;
+      if (parameter.dotDotDotToken) {
+        bindings.set(parameter.name.text, args.slice(index));
+      } else if (index < args.length) {
+        bindings.set(parameter.name.text, [args[index]]);
+      } else if (parameter.initializer) {
+        bindings.set(parameter.name.text, [{ filePath: factory.filePath, node: parameter.initializer }]);
+      }
+    });
+    return bindings;
+  }
+
+  /** SetMetadata(IS_PUBLIC_KEY, true), SetMetadata('roles', roles), SetMetadata('permissions', [...]) */
+  private fromMetadata(args: ValueRef[]): AppliedDecorator[] {
+    const [key, ...values] = args;
+    if (!key || ts.isEnumDeclaration(key.node)) return [];
+    const keyName =
+      this.context.constants.resolveString(key.filePath, key.node) ??
+      (ts.isIdentifier(key.node) ? key.node.text : '');
+
+    if (PUBLIC_METADATA_KEY.test(keyName)) {
+      const value = values[0]?.node;
+      return value?.kind === ts.SyntaxKind.FalseKeyword ? [] : [{ name: 'Public', args: [] }];
+    }
+    if (ROLES_METADATA_KEY.test(keyName)) {
+      return [{ name: 'Roles', args: values }];
+    }
+    if (POLICIES_METADATA_KEY.test(keyName)) {
+      return [{ name: 'Policies', args: values }];
+    }
+    return [];
+  }
+
+  /** The definition of a decorator declared in the project, following imports */
+  private findFactory(filePath: string, callee: ts.Identifier): DecoratorFactory | null {
+    const ref = this.context.moduleGraph.resolveReference(filePath, callee);
+    const sourceFile = ref && this.sourceFiles.get(ref.filePath);
+    if (!ref || !sourceFile) return null;
+
+    for (const statement of sourceFile.statements) {
+      // export function Auth(...roles: Role[]) { return applyDecorators(...); }
+      if (ts.isFunctionDeclaration(statement) && statement.name?.text === ref.name && statement.body) {
+        const body = this.getReturnedExpression(statement.body);
+        return body ? { filePath: ref.filePath, parameters: statement.parameters, body } : null;
+      }
+
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || declaration.name.text !== ref.name) continue;
+        const initializer = declaration.initializer;
+        if (!initializer) return null;
+
+        // export const Auth = (...roles) => applyDecorators(...)
+        if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+          const body = ts.isBlock(initializer.body)
+            ? this.getReturnedExpression(initializer.body)
+            : initializer.body;
+          return body ? { filePath: ref.filePath, parameters: initializer.parameters, body } : null;
+        }
+        // export const IsPublic = SetMetadata(IS_PUBLIC_KEY, true), applied as @IsPublic
+        if (ts.isCallExpression(initializer)) {
+          return { filePath: ref.filePath, parameters: [], body: initializer };
+        }
+        return null;
+      }
+    }
+    return null;
+  }
+
+  private getReturnedExpression(body: ts.Block): ts.Expression | undefined {
+    const returnStatement = body.statements.find(ts.isReturnStatement);
+    return returnStatement?.expression;
+  }
+}
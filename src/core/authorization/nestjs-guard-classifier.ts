@@ -0,0 +1,180 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile } from '../analysis/source-file-loader.js';
+import { ModuleGraph } from '../analysis/module-graph.js';
+import { ValueRef } from '../analysis/constant-resolver.js';
+import { GuardKind } from '../models/guard-kind.js';
+
+// Guard names that authenticate, for guards declared outside the project
+const AUTH_GUARD_PATTERNS = [
+  /AuthGuard/i,
+  /JwtAuthGuard/i,
+  /JwtGuard/i,
+  /LocalAuthGuard/i,
+  /SessionGuard/i,
+  /BearerGuard/i,
+  /TokenGuard/i,
+];
+const RATE_LIMIT_GUARD_PATTERN = /throttl|rate.?limit/i;
+const AUTHORIZATION_GUARD_PATTERN = /role|permission|polic|abilit|casl|acl/i;
+
+// What a guard's implementation does, checked in this order
+const AUTHENTICATION_SIGNALS = [
+  /\.verify(Async)?\s*\(/,
+  /verify(Id)?Token|validateToken|decodeToken|jwtService|passport/i,
+  /headers\s*(\.\s*authorization|\[\s*['"`]authorization['"`]\s*\])/i,
+  /Bearer/,
+  /api[-_]?key|x-api-key/i,
+  /isAuthenticated\s*\(|session\s*\.\s*(user|userId)\b/,
+];
+const AUTHORIZATION_SIGNALS = [/\broles?\b|permissions?|polic(y|ies)|abilit(y|ies)/i, /ForbiddenException/];
+const RATE_LIMIT_SIGNALS = [/throttl|rate.?limit|TooManyRequests/i];
+
+const MAX_INHERITANCE_DEPTH = 10;
+
+interface GuardClass {
+  filePath: string;
+  node: ts.ClassDeclaration;
+}
+
+/**
+ * Classifies NestJS guards by what they do rather than by their name, so a
+ * `TenantGuard` that verifies a JWT counts as authentication while a
+ * `RateAuthGuard extends ThrottlerGuard` does not:
+ *
+ * - `extends AuthGuard('jwt')` (@nestjs/passport) authenticates
+ * - `extends ThrottlerGuard` limits the request rate
+ * - `implements CanActivate` is classified from its body: token verification,
+ *   role or permission checks, throttling
+ *
+ * A guard is looked up where it is used (`@UseGuards(JwtGuard)`), following
+ * imports, so same-named guards of different modules are told apart. Guards
+ * declared outside the project, and guards whose body shows none of these,
+ * fall back to their name. Overrides from config take precedence over both.
+ */
+export class NestJSGuardClassifier {
+  private moduleGraph: ModuleGraph;
+  private overrides: Map<string, GuardKind>;
+  /** Top-level class declarations of the project by `filePath#name` */
+  private classes = new Map<string, GuardClass>();
+  /** The same declarations by name, for guards named without a use site (global guards) */
+  private classesByName = new Map<string, GuardClass[]>();
+  /** Keyed like `classes`, or by name for guards without a declaration */
+  private cache = new Map<string, GuardKind>();
+
+  constructor(
+    files: LoadedSourceFile[],
+    moduleGraph: ModuleGraph,
+    overrides: Record<string, GuardKind> = {}
+  ) {
+    this.moduleGraph = moduleGraph;
+    this.overrides = new Map(Object.entries(overrides));
+    for (const file of files) {
+      for (const statement of file.sourceFile.statements) {
+        if (!ts.isClassDeclaration(statement) || !statement.name) continue;
+        const name = statement.name.text;
+        const guardClass = { filePath: file.filePath, node: statement };
+        this.classes.set(`${file.filePath}#${name}`, guardClass);
+        this.classesByName.set(name, [...(this.classesByName.get(name) ?? []), guardClass]);
+      }
+    }
+  }
+
+  /** `reference` is the guard's identifier where it is used, when there is one */
+  classify(guardName: string, reference?: ValueRef): GuardKind {
+    return this.classifyGuard(guardName, reference, 0);
+  }
+
+  private classifyGuard(guardName: string, reference: ValueRef | undefined, depth: number): GuardKind {
+    const override = this.overrides.get(guardName);
+    if (override) return override;
+
+    const declaration = this.findClass(guardName, reference);
+    const key = declaration ? `${declaration.filePath}#${declaration.node.name?.text}` : guardName;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const kind =
+      declaration && depth < MAX_INHERITANCE_DEPTH
+        ? this.classifyDeclaration(declaration.filePath, declaration.node, depth)
+        : null;
+    const result = kind ?? classifyGuardName(guardName);
+    this.cache.set(key, result);
+    return result;
+  }
+
+  /**
+   * The class a guard identifier refers to, following imports. Without a use
+   * site, or for a name neither imported nor declared in its file, the one
+   * project class by that name; none when the name is ambiguous.
+   */
+  private findClass(guardName: string, reference?: ValueRef): GuardClass | undefined {
+    if (reference && ts.isIdentifier(reference.node)) {
+      const ref = this.moduleGraph.resolveReference(reference.filePath, reference.node);
+      if (!ref) return undefined;
+      const declaration = this.classes.get(`${ref.filePath}#${ref.name}`);
+      if (declaration || ref.filePath !== reference.filePath) return declaration;
+    }
+    const candidates = this.classesByName.get(guardName) ?? [];
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /** null when the class is not a recognisable guard, or does nothing telling */
+  private classifyDeclaration(
+    filePath: string,
+    node: ts.ClassDeclaration,
+    depth: number
+  ): GuardKind | null {
+    const base = node.heritageClauses
+      ?.find((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+      ?.types[0]?.expression;
+
+    if (base) {
+      // extends AuthGuard('jwt'): a passport strategy
+      if (ts.isCallExpression(base) && ts.isIdentifier(base.expression)) {
+        if (this.isPassportAuthGuard(filePath, base.expression)) {
+          return GuardKind.Authentication;
+        }
+      } else if (ts.isIdentifier(base)) {
+        const baseKind = this.classifyGuard(base.text, { filePath, node: base }, depth + 1);
+        if (baseKind !== GuardKind.Other) return baseKind;
+      }
+    }
+
+    const implementsCanActivate = node.heritageClauses?.some(
+      (clause) =>
+        clause.token === ts.SyntaxKind.ImplementsKeyword &&
+        clause.types.some((type) => type.expression.getText() === 'CanActivate')
+    );
+    const hasCanActivate = node.members.some(
+      (member) => ts.isMethodDeclaration(member) && member.name.getText() === 'canActivate'
+    );
+    if (!implementsCanActivate && !hasCanActivate) {
+      return null;
+    }
+
+    // Helpers such as extractToken() count along with canActivate() itself
+    const body = node.members
+      .filter((member) => !ts.isPropertyDeclaration(member))
+      .map((member) => member.getText())
+      .join('\n');
+    if (AUTHENTICATION_SIGNALS.some((signal) => signal.test(body))) return GuardKind.Authentication;
+    if (AUTHORIZATION_SIGNALS.some((signal) => signal.test(body))) return GuardKind.Authorization;
+    if (RATE_LIMIT_SIGNALS.some((signal) => signal.test(body))) return GuardKind.RateLimiting;
+    return null;
+  }
+
+  /** `AuthGuard` imported from @nestjs/passport, or not imported at all (loose snippets) */
+  private isPassportAuthGuard(filePath: string, callee: ts.Identifier): boolean {
+    const binding = this.moduleGraph.getImportBinding(filePath, callee.text);
+    if (!binding) return callee.text === 'AuthGuard';
+    return binding.specifier === '@nestjs/passport' && binding.importedName === 'AuthGuard';
+  }
+}
+
+/** What a guard does judging only by its name */
+export function classifyGuardName(guardName: string): GuardKind {
+  if (RATE_LIMIT_GUARD_PATTERN.test(guardName)) return GuardKind.RateLimiting;
+  if (AUTH_GUARD_PATTERNS.some((pattern) => pattern.test(guardName))) return GuardKind.Authentication;
+  if (AUTHORIZATION_GUARD_PATTERN.test(guardName)) return GuardKind.Authorization;
+  return GuardKind.Other;
+}
@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Finding } from '../models/finding.js';
+
+export const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  ruleId: string;
+  method: string;
+  route: string;
+  handler: string;
+}
+
+export interface BaselineFile {
+  version: number;
+  createdAt: string;
+  findings: BaselineEntry[];
+}
+
+export class BaselineLoader {
+  async load(baselinePath: string): Promise<BaselineFile> {
+    const filePath = path.resolve(baselinePath);
+
+    let baseline: BaselineFile;
+    try {
+      baseline = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as BaselineFile;
+    } catch (error) {
+      throw new Error(`Failed to load baseline from ${filePath}: ${error}`);
+    }
+
+    if (baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.findings)) {
+      throw new Error(
+        `Unsupported baseline format in ${filePath} (expected version ${BASELINE_VERSION})`
+      );
+    }
+
+    return baseline;
+  }
+
+  /**
+   * Snapshots the given findings. Suppressed findings are left out: they are
+   * already accounted for by their suppression.
+   */
+  async write(baselinePath: string, findings: Finding[]): Promise<BaselineFile> {
+    const entries = new Map<string, BaselineEntry>();
+
+    for (const finding of findings) {
+      if (finding.suppressed) continue;
+
+      entries.set(finding.fingerprint, {
+        fingerprint: finding.fingerprint,
+        ruleId: finding.ruleId,
+        method: finding.endpoint.method,
+        route: finding.endpoint.route,
+        handler: finding.endpoint.handlerName,
+      });
+    }
+
+    const baseline: BaselineFile = {
+      version: BASELINE_VERSION,
+      createdAt: new Date().toISOString(),
+      // Sorted so the file diffs cleanly when regenerated
+      findings: [...entries.values()].sort(
+        (a, b) =>
+          a.ruleId.localeCompare(b.ruleId) ||
+          a.route.localeCompare(b.route) ||
+          a.method.localeCompare(b.method) ||
+          a.fingerprint.localeCompare(b.fingerprint)
+      ),
+    };
+
+    fs.writeFileSync(path.resolve(baselinePath), JSON.stringify(baseline, null, 2) + '\n', 'utf-8');
+    return baseline;
+  }
+}
+
+export class BaselineMatcher {
+  private fingerprints: Set<string>;
+
+  constructor(baseline: BaselineFile) {
+    this.fingerprints = new Set(baseline.findings.map((f) => f.fingerprint));
+  }
+
+  applyBaselineToFindings(findings: Finding[]): Finding[] {
+    return findings.map((finding) => {
+      if (!finding.suppressed && this.fingerprints.has(finding.fingerprint)) {
+        return { ...finding, baselined: true };
+      }
+      return finding;
+    });
+  }
+}
@@ -1,7 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { parseSeverity } from '../models/severity.js';
+import { GuardKind, parseGuardKind } from '../models/guard-kind.js';
 import { RuleConfig } from '../../rules/rule-interface.js';
+import { validateRuleOptions } from '../../rules/rule-options.js';
 
 export interface ApiPostureConfig {
   rules?: Record<string, RuleConfig>;
@@ -15,6 +17,10 @@ export interface ApiPostureConfig {
     excludePatterns?: string[];
     includePatterns?: string[];
   };
+  nestjs?: {
+    /** Guard class name -> what it does, for guards the scanner misjudges */
+    guards?: Record<string, GuardKind>;
+  };
 }
 
 export interface SuppressionConfig {
@@ -23,8 +29,16 @@ export interface SuppressionConfig {
   routePattern?: string;
   method?: string;
   reason: string;
+  /** ISO date (e.g. 2026-06-30); the suppression stops applying after this day */
+  expires?: string;
+  /** Person or team accountable for the suppression */
+  owner?: string;
+  /** Tracking ticket for the accepted risk */
+  ticket?: string;
 }
 
+const OUTPUT_FORMATS = ['terminal', 'json', 'markdown'];
+
 const CONFIG_FILE_NAMES = [
   '.apiposture.json',
   'apiposture.json',
@@ -32,12 +46,16 @@ const CONFIG_FILE_NAMES = [
 ];
 
 export class ConfigLoader {
-  async load(configPath?: string): Promise<ApiPostureConfig> {
-    let filePath: string | null = configPath ?? null;
+  /**
+   * Loads an explicit config file, or searches for one starting at `searchDir`
+   * (normally the scanned project root) and walking up towards the filesystem root.
+   */
+  async load(configPath?: string, searchDir: string = process.cwd()): Promise<ApiPostureConfig> {
+    let filePath: string | null = configPath ? path.resolve(configPath) : null;
 
     // If no path specified, search for config file
     if (!filePath) {
-      filePath = this.findConfigFile(process.cwd());
+      filePath = this.findConfigFile(searchDir);
     }
 
     if (!filePath) {
@@ -58,7 +76,7 @@ export class ConfigLoader {
   }
 
   private findConfigFile(startDir: string): string | null {
-    let currentDir = startDir;
+    let currentDir = path.resolve(startDir);
     let parentDir = path.dirname(currentDir);
 
     while (currentDir !== parentDir) {
@@ -84,8 +102,38 @@ export class ConfigLoader {
           const parsed = parseSeverity(ruleConfig.severity as unknown as string);
           if (!parsed) {
             console.warn(`Invalid severity "${ruleConfig.severity}" for rule ${ruleId}`);
+            delete ruleConfig.severity;
+          } else {
+            ruleConfig.severity = parsed;
           }
         }
+
+        if (ruleConfig.options) {
+          const { options, errors } = validateRuleOptions(ruleId, ruleConfig.options);
+          for (const error of errors) {
+            console.warn(`${error}, ignoring`);
+          }
+          ruleConfig.options = options;
+        }
+      }
+    }
+
+    // Validate output format
+    if (config.output?.format && !OUTPUT_FORMATS.includes(config.output.format)) {
+      console.warn(`Invalid output format "${config.output.format}" in config, ignoring`);
+      delete config.output.format;
+    }
+
+    // Validate NestJS guard kinds
+    if (config.nestjs?.guards) {
+      for (const [guardName, kind] of Object.entries(config.nestjs.guards)) {
+        const parsed = parseGuardKind(String(kind));
+        if (!parsed) {
+          console.warn(`Invalid guard kind "${kind}" for guard ${guardName}, ignoring`);
+          delete config.nestjs.guards[guardName];
+        } else {
+          config.nestjs.guards[guardName] = parsed;
+        }
       }
     }
 
@@ -96,6 +144,10 @@ export class ConfigLoader {
           console.warn('Suppression missing required "reason" field, skipping');
           return false;
         }
+        if (s.expires !== undefined && Number.isNaN(Date.parse(s.expires))) {
+          console.warn(`Suppression has invalid "expires" date "${s.expires}", skipping`);
+          return false;
+        }
         return true;
       });
     }
@@ -0,0 +1,115 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile, getLineAndColumn } from '../analysis/source-file-loader.js';
+import { InlineSuppression } from '../models/inline-suppression.js';
+
+const DIRECTIVE = 'apiposture-ignore';
+
+// apiposture-ignore AP001, AP008: reason
+const DIRECTIVE_PATTERN = /^([A-Za-z]+\d+(?:\s*,\s*[A-Za-z]+\d+)*)\s*(?::\s*(.*))?$/;
+
+export class InlineSuppressionParser {
+  /**
+   * Collects `apiposture-ignore` comments from a file. Each suppression is
+   * attached to the line of the code that follows the comment, which is where
+   * discoverers report the endpoint location (the route call for Express-style
+   * frameworks, the first decorator for NestJS methods).
+   */
+  parse(file: LoadedSourceFile): InlineSuppression[] {
+    const { sourceFile, filePath, content } = file;
+
+    // Cheap pre-check: most files have no directives at all
+    if (!content.includes(DIRECTIVE)) {
+      return [];
+    }
+
+    const suppressions: InlineSuppression[] = [];
+    const seenComments = new Set<number>();
+    const seenPositions = new Set<number>();
+
+    const visit = (node: ts.Node): void => {
+      const fullStart = node.getFullStart();
+      if (!seenPositions.has(fullStart)) {
+        seenPositions.add(fullStart);
+
+        const comments = ts.getLeadingCommentRanges(content, fullStart) ?? [];
+        for (const comment of comments) {
+          if (seenComments.has(comment.pos)) continue;
+          seenComments.add(comment.pos);
+
+          const suppression = this.parseComment(
+            content.slice(comment.pos, comment.end),
+            node,
+            sourceFile,
+            filePath
+          );
+          if (suppression) {
+            suppressions.push(suppression);
+          }
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    ts.forEachChild(sourceFile, visit);
+    return suppressions;
+  }
+
+  private parseComment(
+    commentText: string,
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): InlineSuppression | null {
+    const body = commentText
+      .replace(/^\/\/|^\/\*|\*\/$/g, '')
+      .replace(/^\s*\*/gm, '')
+      .trim();
+
+    if (!body.startsWith(DIRECTIVE)) {
+      return null;
+    }
+
+    const location = getLineAndColumn(sourceFile, this.getAnchor(node).getStart(sourceFile));
+    const where = `${filePath}:${location.line}`;
+    const match = DIRECTIVE_PATTERN.exec(body.slice(DIRECTIVE.length).trim());
+
+    if (!match) {
+      console.warn(`Inline suppression at ${where} must name at least one rule ID, skipping`);
+      return null;
+    }
+
+    const reason = match[2]?.trim();
+    if (!reason) {
+      console.warn(`Inline suppression at ${where} missing required reason, skipping`);
+      return null;
+    }
+
+    return {
+      ruleIds: match[1].split(',').map((id) => id.trim().toUpperCase()),
+      reason,
+      location: {
+        filePath,
+        line: location.line,
+        column: location.column,
+      },
+    };
+  }
+
+  /**
+   * Comments between decorators (or between decorators and the method name)
+   * belong to the decorated declaration, whose start is the endpoint location.
+   */
+  private getAnchor(node: ts.Node): ts.Node {
+    const parent = node.parent;
+    if (!parent) return node;
+
+    if (ts.isDecorator(node) || ts.isModifier(node)) {
+      return parent;
+    }
+    if ((ts.isMethodDeclaration(parent) || ts.isClassDeclaration(parent)) && node === parent.name) {
+      return parent;
+    }
+    return node;
+  }
+}
@@ -1,30 +1,133 @@
 import { Finding } from '../models/finding.js';
 import { Endpoint } from '../models/endpoint.js';
+import { InlineSuppression } from '../models/inline-suppression.js';
+import { StaleSuppression } from '../models/stale-suppression.js';
 import { SuppressionConfig } from './config-loader.js';
 
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SuppressionMatcherOptions {
+  /** Reference time for expiry checks (defaults to now) */
+  now?: Date;
+  /**
+   * What a `--changed-since` scan reported on. Suppressions for endpoints and
+   * files outside it can only be judged expired, not unused.
+   */
+  scope?: SuppressionScope;
+}
+
+export interface SuppressionScope {
+  endpoints: Endpoint[];
+  files: string[];
+}
+
 export class SuppressionMatcher {
   private suppressions: SuppressionConfig[];
+  private inlineSuppressions: InlineSuppression[];
+  private now: Date;
+  private scope?: { endpoints: Endpoint[]; files: Set<string> };
+  private used: Set<SuppressionConfig | InlineSuppression> = new Set();
 
-  constructor(suppressions: SuppressionConfig[] = []) {
+  constructor(
+    suppressions: SuppressionConfig[] = [],
+    inlineSuppressions: InlineSuppression[] = [],
+    options: SuppressionMatcherOptions = {}
+  ) {
     this.suppressions = suppressions;
+    this.inlineSuppressions = inlineSuppressions;
+    this.now = options.now ?? new Date();
+    this.scope = options.scope && {
+      endpoints: options.scope.endpoints,
+      files: new Set(options.scope.files),
+    };
   }
 
   applySuppressionsToFindings(findings: Finding[]): Finding[] {
     return findings.map((finding) => {
+      // Inline comments sit next to the code, so they take precedence over config entries
+      const inline = this.findMatchingInlineSuppression(finding);
+      if (inline) {
+        this.used.add(inline);
+        return {
+          ...finding,
+          suppressed: true,
+          suppressionReason: inline.reason,
+          suppressionSource: 'inline',
+        };
+      }
+
       const suppression = this.findMatchingSuppression(finding);
       if (suppression) {
+        this.used.add(suppression);
         return {
           ...finding,
           suppressed: true,
           suppressionReason: suppression.reason,
+          suppressionSource: 'config',
         };
       }
       return finding;
     });
   }
 
+  private findMatchingInlineSuppression(finding: Finding): InlineSuppression | null {
+    const { filePath, line } = finding.endpoint.location;
+    return (
+      this.inlineSuppressions.find(
+        (s) =>
+          s.location.filePath === filePath &&
+          s.location.line === line &&
+          s.ruleIds.includes(finding.ruleId)
+      ) ?? null
+    );
+  }
+
+  /**
+   * Suppressions that are past their expiry date or that matched none of the
+   * findings passed to `applySuppressionsToFindings`. Within a scope, only
+   * suppressions matching one of its endpoints or files can be unused.
+   */
+  getStaleSuppressions(): StaleSuppression[] {
+    const stale: StaleSuppression[] = [];
+
+    for (const suppression of this.suppressions) {
+      const expired = this.isExpired(suppression);
+      if (!expired && (this.used.has(suppression) || !this.isInScope(suppression))) continue;
+
+      stale.push({
+        status: expired ? 'expired' : 'unused',
+        source: 'config',
+        reason: suppression.reason,
+        ruleIds: suppression.ruleId ? [suppression.ruleId] : [],
+        route: suppression.route,
+        routePattern: suppression.routePattern,
+        method: suppression.method,
+        expires: suppression.expires,
+        owner: suppression.owner,
+        ticket: suppression.ticket,
+      });
+    }
+
+    for (const suppression of this.inlineSuppressions) {
+      if (this.used.has(suppression)) continue;
+      if (this.scope && !this.scope.files.has(suppression.location.filePath)) continue;
+
+      stale.push({
+        status: 'unused',
+        source: 'inline',
+        reason: suppression.reason,
+        ruleIds: suppression.ruleIds,
+        location: suppression.location,
+      });
+    }
+
+    return stale;
+  }
+
   isEndpointSuppressed(endpoint: Endpoint, ruleId: string): SuppressionConfig | null {
     for (const suppression of this.suppressions) {
+      if (this.isExpired(suppression)) continue;
       if (this.matchesEndpoint(suppression, endpoint, ruleId)) {
         return suppression;
       }
@@ -32,8 +135,18 @@ export class SuppressionMatcher {
     return null;
   }
 
+  private isInScope(suppression: SuppressionConfig): boolean {
+    return (
+      !this.scope ||
+      this.scope.endpoints.some((endpoint) =>
+        this.matchesEndpoint(suppression, endpoint, suppression.ruleId ?? '')
+      )
+    );
+  }
+
   private findMatchingSuppression(finding: Finding): SuppressionConfig | null {
     for (const suppression of this.suppressions) {
+      if (this.isExpired(suppression)) continue;
       if (this.matchesFinding(suppression, finding)) {
         return suppression;
       }
@@ -41,6 +154,17 @@ export class SuppressionMatcher {
     return null;
   }
 
+  private isExpired(suppression: SuppressionConfig): boolean {
+    if (!suppression.expires) return false;
+
+    const expires = Date.parse(suppression.expires);
+    if (Number.isNaN(expires)) return false;
+
+    // A plain date means "valid through the end of that day (UTC)"
+    const cutoff = DATE_ONLY.test(suppression.expires) ? expires + ONE_DAY_MS : expires;
+    return this.now.getTime() >= cutoff;
+  }
+
   private matchesFinding(suppression: SuppressionConfig, finding: Finding): boolean {
     return this.matchesEndpoint(suppression, finding.endpoint, finding.ruleId);
   }
@@ -78,14 +202,14 @@ export class SuppressionMatcher {
   private matchesRoutePattern(pattern: string, route: string): boolean {
     // Convert glob-like pattern to regex
     // * matches any segment, ** matches any path
-    let regexPattern = pattern
+    // Escape regex special chars first so the generated wildcards survive
+    let regexPattern = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+    regexPattern = regexPattern
       .replace(/\*\*/g, '<<<DOUBLE_STAR>>>')
       .replace(/\*/g, '[^/]+')
       .replace(/<<<DOUBLE_STAR>>>/g, '.*');
 
-    // Escape regex special chars except those we converted
-    regexPattern = regexPattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
-
     // Anchor the pattern
     regexPattern = `^${regexPattern}$`;
 
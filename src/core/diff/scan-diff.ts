@@ -0,0 +1,273 @@
+import * as path from 'path';
+import { ScanResult } from '../models/scan-result.js';
+import { isActiveFinding, normalizeRouteForFingerprint } from '../models/finding.js';
+import { Severity, parseSeverity } from '../models/severity.js';
+import { Transport } from '../models/transport.js';
+import {
+  SecurityClassification,
+  classificationOrder,
+  parseSecurityClassification,
+} from '../models/security-classification.js';
+
+/**
+ * Framework-neutral view of one scan, built either from a live ScanResult or
+ * from a saved `--output json` report, so both can be compared.
+ */
+export interface ScanSnapshot {
+  label: string;
+  endpoints: SnapshotEndpoint[];
+  findings: SnapshotFinding[];
+}
+
+export interface SnapshotEndpoint {
+  route: string;
+  method: string;
+  handler: string;
+  controller?: string;
+  framework: string;
+  transport: string;
+  classification: SecurityClassification;
+  roles: string[];
+  policies: string[];
+  /** File path relative to the scanned project */
+  file: string;
+  line: number;
+}
+
+export interface SnapshotFinding {
+  fingerprint: string;
+  ruleId: string;
+  ruleName: string;
+  severity: Severity;
+  message: string;
+  route: string;
+  method: string;
+}
+
+export interface ClassificationChange {
+  endpoint: SnapshotEndpoint;
+  previous: SecurityClassification;
+  current: SecurityClassification;
+  direction: 'weakened' | 'strengthened';
+}
+
+export interface AccessChange {
+  endpoint: SnapshotEndpoint;
+  addedRoles: string[];
+  removedRoles: string[];
+  addedPolicies: string[];
+  removedPolicies: string[];
+}
+
+export interface ScanDiff {
+  base: string;
+  head: string;
+  addedEndpoints: SnapshotEndpoint[];
+  removedEndpoints: SnapshotEndpoint[];
+  classificationChanges: ClassificationChange[];
+  accessChanges: AccessChange[];
+  newFindings: SnapshotFinding[];
+  resolvedFindings: SnapshotFinding[];
+}
+
+export function snapshotFromScanResult(result: ScanResult, label: string): ScanSnapshot {
+  return {
+    label,
+    endpoints: result.endpoints.map((e) => ({
+      route: e.route,
+      method: e.method,
+      handler: e.handlerName,
+      controller: e.controllerName,
+      framework: e.type,
+      transport: e.transport,
+      classification: e.authorization.classification,
+      roles: e.authorization.roles,
+      policies: e.authorization.policies,
+      file: relativeTo(result.projectPath, e.location.filePath),
+      line: e.location.line,
+    })),
+    findings: result.findings.filter(isActiveFinding).map((f) => ({
+      fingerprint: f.fingerprint,
+      ruleId: f.ruleId,
+      ruleName: f.ruleName,
+      severity: f.severity,
+      message: f.message,
+      route: f.endpoint.route,
+      method: f.endpoint.method,
+    })),
+  };
+}
+
+/**
+ * Builds a snapshot from the document written by `apiposture scan -o json`.
+ * Throws when the document does not look like a scan report.
+ */
+export function snapshotFromJson(data: unknown, label: string): ScanSnapshot {
+  const report = data as JsonReport;
+  if (!report || !Array.isArray(report.endpoints) || !Array.isArray(report.findings)) {
+    throw new Error(`${label} is not an ApiPosture JSON scan report`);
+  }
+
+  const projectPath = report.scanInfo?.projectPath ?? '';
+
+  return {
+    label,
+    endpoints: report.endpoints.map((e) => ({
+      route: e.route,
+      method: e.method,
+      handler: e.handler ?? 'unknown',
+      controller: e.controller,
+      framework: e.framework,
+      // Reports from before message handlers existed only held HTTP endpoints
+      transport: e.transport ?? Transport.HTTP,
+      classification:
+        parseSecurityClassification(e.authorization?.classification ?? '') ??
+        SecurityClassification.Public,
+      roles: e.authorization?.roles ?? [],
+      policies: e.authorization?.policies ?? [],
+      file: relativeTo(projectPath, e.location?.file ?? ''),
+      line: e.location?.line ?? 0,
+    })),
+    findings: report.findings.map((f) => ({
+      // Reports from before fingerprints existed fall back to a route-based key
+      fingerprint:
+        f.fingerprint ??
+        `${f.ruleId} ${f.endpoint.method} ${normalizeRouteForFingerprint(f.endpoint.route)}`,
+      ruleId: f.ruleId,
+      ruleName: f.ruleName,
+      severity: parseSeverity(f.severity) ?? Severity.Info,
+      message: f.message,
+      route: f.endpoint.route,
+      method: f.endpoint.method,
+    })),
+  };
+}
+
+export function computeScanDiff(base: ScanSnapshot, head: ScanSnapshot): ScanDiff {
+  const baseEndpoints = indexEndpoints(base.endpoints);
+  const headEndpoints = indexEndpoints(head.endpoints);
+
+  const diff: ScanDiff = {
+    base: base.label,
+    head: head.label,
+    addedEndpoints: [],
+    removedEndpoints: [],
+    classificationChanges: [],
+    accessChanges: [],
+    newFindings: [],
+    resolvedFindings: [],
+  };
+
+  for (const [key, endpoint] of headEndpoints) {
+    const previous = baseEndpoints.get(key);
+    if (!previous) {
+      diff.addedEndpoints.push(endpoint);
+      continue;
+    }
+
+    if (previous.classification !== endpoint.classification) {
+      diff.classificationChanges.push({
+        endpoint,
+        previous: previous.classification,
+        current: endpoint.classification,
+        direction:
+          classificationOrder[endpoint.classification] < classificationOrder[previous.classification]
+            ? 'weakened'
+            : 'strengthened',
+      });
+    }
+
+    const access: AccessChange = {
+      endpoint,
+      addedRoles: difference(endpoint.roles, previous.roles),
+      removedRoles: difference(previous.roles, endpoint.roles),
+      addedPolicies: difference(endpoint.policies, previous.policies),
+      removedPolicies: difference(previous.policies, endpoint.policies),
+    };
+    if (
+      access.addedRoles.length > 0 ||
+      access.removedRoles.length > 0 ||
+      access.addedPolicies.length > 0 ||
+      access.removedPolicies.length > 0
+    ) {
+      diff.accessChanges.push(access);
+    }
+  }
+
+  for (const [key, endpoint] of baseEndpoints) {
+    if (!headEndpoints.has(key)) {
+      diff.removedEndpoints.push(endpoint);
+    }
+  }
+
+  const baseFingerprints = new Set(base.findings.map((f) => f.fingerprint));
+  const headFingerprints = new Set(head.findings.map((f) => f.fingerprint));
+  diff.newFindings = uniqueByFingerprint(head.findings.filter((f) => !baseFingerprints.has(f.fingerprint)));
+  diff.resolvedFindings = uniqueByFingerprint(
+    base.findings.filter((f) => !headFingerprints.has(f.fingerprint))
+  );
+
+  return diff;
+}
+
+export function hasWeakenedEndpoints(diff: ScanDiff): boolean {
+  return diff.classificationChanges.some((c) => c.direction === 'weakened');
+}
+
+export function isEmptyDiff(diff: ScanDiff): boolean {
+  return (
+    diff.addedEndpoints.length === 0 &&
+    diff.removedEndpoints.length === 0 &&
+    diff.classificationChanges.length === 0 &&
+    diff.accessChanges.length === 0 &&
+    diff.newFindings.length === 0 &&
+    diff.resolvedFindings.length === 0
+  );
+}
+
+function endpointKey(endpoint: SnapshotEndpoint): string {
+  return `${endpoint.framework} ${endpoint.transport} ${endpoint.method} ${normalizeRouteForFingerprint(endpoint.route)}`;
+}
+
+function indexEndpoints(endpoints: SnapshotEndpoint[]): Map<string, SnapshotEndpoint> {
+  const sorted = [...endpoints].sort(
+    (a, b) => a.route.localeCompare(b.route) || a.method.localeCompare(b.method)
+  );
+  return new Map(sorted.map((e) => [endpointKey(e), e]));
+}
+
+function uniqueByFingerprint(findings: SnapshotFinding[]): SnapshotFinding[] {
+  return [...new Map(findings.map((f) => [f.fingerprint, f])).values()];
+}
+
+function difference(a: string[], b: string[]): string[] {
+  const other = new Set(b);
+  return [...new Set(a)].filter((v) => !other.has(v));
+}
+
+function relativeTo(projectPath: string, filePath: string): string {
+  if (!projectPath || !path.isAbsolute(filePath)) return filePath;
+  return path.relative(projectPath, filePath);
+}
+
+interface JsonReport {
+  scanInfo?: { projectPath?: string };
+  endpoints: {
+    route: string;
+    method: string;
+    handler?: string;
+    controller?: string;
+    framework: string;
+    transport?: string;
+    location?: { file?: string; line?: number };
+    authorization?: { classification?: string; roles?: string[]; policies?: string[] };
+  }[];
+  findings: {
+    fingerprint?: string;
+    ruleId: string;
+    ruleName: string;
+    severity: string;
+    message: string;
+    endpoint: { route: string; method: string };
+  }[];
+}
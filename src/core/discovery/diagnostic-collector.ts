@@ -0,0 +1,58 @@
+import * as ts from 'typescript';
+import { getLineAndColumn } from '../analysis/source-file-loader.js';
+import { EndpointType } from '../models/endpoint-type.js';
+import { DiscoveryDiagnostic, DiscoveryDiagnosticReason } from '../models/discovery-diagnostic.js';
+
+const MAX_CODE_LENGTH = 80;
+
+/** Collects a discoverer's diagnostics for route registrations it could not fully resolve */
+export class DiagnosticCollector {
+  private framework: EndpointType;
+  private diagnostics: DiscoveryDiagnostic[] = [];
+
+  constructor(framework: EndpointType) {
+    this.framework = framework;
+  }
+
+  report(
+    reason: DiscoveryDiagnosticReason,
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    skipped = true
+  ): void {
+    const location = getLineAndColumn(sourceFile, node.getStart(sourceFile));
+    // A registration inside a loop is evaluated once per iteration; report it once
+    const duplicate = this.diagnostics.some(
+      (d) =>
+        d.reason === reason &&
+        d.skipped === skipped &&
+        d.location.filePath === filePath &&
+        d.location.line === location.line &&
+        d.location.column === location.column
+    );
+    if (duplicate) return;
+
+    this.diagnostics.push({
+      framework: this.framework,
+      reason,
+      code: this.shorten(node.getText(sourceFile)),
+      location: { filePath, line: location.line, column: location.column },
+      skipped,
+    });
+  }
+
+  getAll(): DiscoveryDiagnostic[] {
+    return [...this.diagnostics];
+  }
+
+  clear(): void {
+    this.diagnostics = [];
+  }
+
+  private shorten(code: string): string {
+    const firstLine = code.split('\n')[0].trim();
+    const text = firstLine.length < code.trim().length ? `${firstLine} ...` : firstLine;
+    return text.length > MAX_CODE_LENGTH ? `${text.slice(0, MAX_CODE_LENGTH - 3)}...` : text;
+  }
+}
@@ -1,7 +1,18 @@
 import { Endpoint } from '../models/endpoint.js';
 import { LoadedSourceFile } from '../analysis/source-file-loader.js';
+import { DiscoveryDiagnostic } from '../models/discovery-diagnostic.js';
 
 export interface EndpointDiscoverer {
   readonly name: string;
+  /**
+   * Optional pre-pass over every file of the project before `discover` runs,
+   * for discoverers that need cross-file state (e.g. router mounts).
+   */
+  prepare?(files: LoadedSourceFile[]): Promise<void>;
   discover(file: LoadedSourceFile): Promise<Endpoint[]>;
+  /**
+   * Route registrations seen since the last `prepare` that could not be
+   * fully resolved (dynamic paths, computed methods, runtime handler lists).
+   */
+  getDiagnostics?(): DiscoveryDiagnostic[];
 }
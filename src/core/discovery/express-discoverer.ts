@@ -6,6 +6,11 @@ import { EndpointType } from '../models/endpoint-type.js';
 import { HttpMethod, parseHttpMethod } from '../models/http-method.js';
 import { RouteGroupRegistry } from './route-group-registry.js';
 import { ExpressAuthExtractor } from '../authorization/express-auth-extractor.js';
+import { FrameworkBindings } from './framework-bindings.js';
+import { ProjectContext, createProjectContext, getFileContext } from './project-context.js';
+import { DiagnosticCollector } from './diagnostic-collector.js';
+import { LoopBindings, UNRESOLVED_SEGMENT } from '../analysis/constant-resolver.js';
+import { DiscoveryDiagnostic } from '../models/discovery-diagnostic.js';
 
 const EXPRESS_HTTP_METHODS = new Set([
   'get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'all'
@@ -13,37 +18,70 @@ const EXPRESS_HTTP_METHODS = new Set([
 
 const EXPRESS_IDENTIFIERS = new Set(['app', 'router', 'express']);
 
+// A mount path the resolver can't fold: getPrefix(), config.basePath, API_ROOT
+const MOUNT_PATH_NAME = /prefix|path|url|root|base|mount|version/i;
+const HANDLER_NAME = /router|app|middleware|handler|auth/i;
+
 export class ExpressDiscoverer implements EndpointDiscoverer {
   readonly name = 'Express.js';
   private registry: RouteGroupRegistry;
   private authExtractor: ExpressAuthExtractor;
+  private context?: ProjectContext;
+  private preparedFiles: Set<string> = new Set();
+  private diagnostics = new DiagnosticCollector(EndpointType.Express);
 
   constructor() {
     this.registry = new RouteGroupRegistry();
     this.authExtractor = new ExpressAuthExtractor();
   }
 
+  /**
+   * Collects router mounts of the whole project up front so
+   * that routes in `routes/users.ts` pick up the prefix and middlewares of
+   * `app.use('/api/users', requireAuth, usersRouter)` in `app.ts`.
+   */
+  async prepare(files: LoadedSourceFile[]): Promise<void> {
+    this.registry.clear();
+    this.preparedFiles.clear();
+    this.diagnostics.clear();
+    this.context = createProjectContext(files);
+
+    for (const file of files) {
+      this.collectRouterMounts(file.sourceFile, file.filePath, this.context);
+      this.preparedFiles.add(file.filePath);
+    }
+  }
+
+  getDiagnostics(): DiscoveryDiagnostic[] {
+    return this.diagnostics.getAll();
+  }
+
   async discover(file: LoadedSourceFile): Promise<Endpoint[]> {
     const endpoints: Endpoint[] = [];
     const { sourceFile, filePath } = file;
 
-    // First pass: collect router mounts and route groups
-    this.collectRouterMounts(sourceFile, filePath);
+    // First pass: collect router mounts and route groups (already done by prepare())
+    const context = getFileContext(this.context, file);
+    if (!this.preparedFiles.has(filePath)) {
+      this.collectRouterMounts(sourceFile, filePath, context);
+    }
 
     // Second pass: find route definitions
     const callExpressions = findNodes(sourceFile, ts.isCallExpression);
 
     for (const callExpr of callExpressions) {
-      const endpoint = this.processCallExpression(callExpr, sourceFile, filePath);
-      if (endpoint) {
-        endpoints.push(endpoint);
-      }
+      endpoints.push(...this.processCallExpression(callExpr, sourceFile, filePath, context));
     }
 
     return endpoints;
   }
 
-  private collectRouterMounts(sourceFile: ts.SourceFile, filePath: string): void {
+  private collectRouterMounts(
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    context: ProjectContext
+  ): void {
+    const { moduleGraph, bindings, constants } = context;
     const callExpressions = findNodes(sourceFile, ts.isCallExpression);
 
     for (const callExpr of callExpressions) {
@@ -56,175 +94,329 @@ export class ExpressDiscoverer implements EndpointDiscoverer {
       if (methodName !== 'use') continue;
 
       const args = callExpr.arguments;
-      if (args.length < 2) continue;
-
-      const firstArg = args[0];
-      const secondArg = args[1];
+      if (args.length === 0) continue;
 
-      // Must start with a string path
-      if (!ts.isStringLiteral(firstArg)) continue;
-
-      const prefix = firstArg.text;
       const appName = ts.isIdentifier(propAccess.expression)
         ? propAccess.expression.text
         : '';
 
-      if (!appName) continue;
+      if (!appName || !this.isExpressInstance(propAccess.expression, filePath, bindings)) continue;
 
-      // Check for app.use('/prefix', router) — router is a simple identifier
-      if (ts.isIdentifier(secondArg)) {
-        this.registry.registerRouterMount(filePath, appName, prefix, secondArg.text);
+      // app.use('/prefix', ...handlers) or app.use(router) without a path
+      let path = constants.resolveString(filePath, args[0]);
+      if (path === null && args.length > 1 && this.isMountPathExpression(args[0])) {
+        // app.use(getPrefix(), requireAuth, router): the prefix is unknown, not absent
+        this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath, false);
+        path = UNRESOLVED_SEGMENT;
+      }
+      const hasPath = path !== null;
+      const prefix = path ?? '';
+      const handlers = hasPath ? args.slice(1) : [...args];
+      if (handlers.length === 0) continue;
+
+      // The last handler may be a router, declared here or imported from another file
+      const lastHandler = handlers[handlers.length - 1];
+      const resolved = moduleGraph.resolveReference(filePath, lastHandler);
+      const router =
+        resolved &&
+        bindings.resolveDeclaration(resolved.filePath, resolved.name)?.framework === EndpointType.Express
+          ? { filePath: resolved.filePath, variableName: resolved.name }
+          : null;
+
+      const position = callExpr.getStart(sourceFile);
+      if (router) {
+        this.registry.registerRouterMount(filePath, appName, prefix, router, position);
+      } else if (hasPath && ts.isIdentifier(lastHandler) && !resolved) {
+        // Imported from a module we can't resolve (package, path alias): match by name
+        this.registry.registerRouterMount(filePath, appName, prefix, lastHandler.text, position);
       }
 
-      // Also collect path-scoped middleware: app.use('/path', middleware(), ...)
-      // These middleware apply to all routes matching the path prefix
-      const pathMiddlewares: string[] = [];
-      for (let i = 1; i < args.length; i++) {
-        const mwName = this.extractMiddlewareName(args[i], sourceFile);
+      const middlewares: string[] = [];
+      for (const handler of router ? handlers.slice(0, -1) : handlers) {
+        const mwName = this.extractMiddlewareName(handler);
         if (mwName) {
-          pathMiddlewares.push(mwName);
+          middlewares.push(mwName);
         }
       }
-      if (pathMiddlewares.length > 0) {
-        this.registry.registerPathMiddleware(filePath, prefix, pathMiddlewares);
+      if (middlewares.length === 0) continue;
+
+      if (hasPath) {
+        // Path-scoped middleware: app.use('/path', middleware(), ...)
+        // These middleware apply to all routes matching the path prefix
+        this.registry.registerPathMiddleware(filePath, prefix, middlewares, appName);
+      } else {
+        // Router-wide middleware: router.use(requireAuth) applies to what is registered after it
+        this.registry.registerRouterMiddleware(filePath, appName, middlewares, position);
       }
     }
   }
 
+  /**
+   * Whether a `use()` argument the resolver couldn't fold is a path rather
+   * than middleware or a router, going by its name: `getPrefix()`,
+   * `config.basePath`, `process.env.API_ROOT`
+   */
+  private isMountPathExpression(node: ts.Expression): boolean {
+    const target = ts.isCallExpression(node) ? node.expression : node;
+    if (ts.isPropertyAccessExpression(target) && target.expression.getText() === 'process.env') {
+      return true;
+    }
+    const name = ts.isIdentifier(target)
+      ? target.text
+      : ts.isPropertyAccessExpression(target)
+        ? target.name.text
+        : null;
+    return name !== null && MOUNT_PATH_NAME.test(name) && !HANDLER_NAME.test(name);
+  }
+
   private processCallExpression(
     callExpr: ts.CallExpression,
     sourceFile: ts.SourceFile,
-    filePath: string
-  ): Endpoint | null {
-    // Check for pattern: app.get('/path', handler) or router.post('/path', handler)
-    if (!ts.isPropertyAccessExpression(callExpr.expression)) {
-      return null;
+    filePath: string,
+    context: ProjectContext
+  ): Endpoint[] {
+    // Check for pattern: app.get('/path', handler), router.post('/path', handler) or app['get'](...)
+    const callee = callExpr.expression;
+    if (!ts.isPropertyAccessExpression(callee) && !ts.isElementAccessExpression(callee)) {
+      return [];
     }
 
-    const propAccess = callExpr.expression;
-    const methodName = propAccess.name.text.toLowerCase();
+    // for (const r of routes) router[r.method](r.path, ...r.middleware, r.handler)
+    // registers one route per element of a static array
+    return context.constants
+      .getLoopBindings(filePath, callExpr)
+      .flatMap((loopBindings) =>
+        this.processRouteRegistration(callExpr, callee, sourceFile, filePath, context, loopBindings)
+      );
+  }
+
+  private processRouteRegistration(
+    callExpr: ts.CallExpression,
+    callee: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    context: ProjectContext,
+    loopBindings: LoopBindings
+  ): Endpoint[] {
+    const args = callExpr.arguments;
+    const methodName = this.getMethodName(callee, filePath, context, loopBindings);
+    if (methodName === null) {
+      // app[method]('/path', handler) with a method we can't resolve
+      if (args.length > 1 && this.isExpressInstance(callee.expression, filePath, context.bindings)) {
+        this.diagnostics.report('computed-method', callExpr, sourceFile, filePath);
+      }
+      return [];
+    }
 
     // Check if this is an HTTP method call
     if (!EXPRESS_HTTP_METHODS.has(methodName)) {
-      return null;
+      return [];
     }
 
-    // Check if caller is an Express identifier
-    const callerName = this.getCallerName(propAccess.expression);
-    if (!callerName || !this.isExpressIdentifier(callerName)) {
-      return null;
+    // Either app.get('/path', ...handlers) or a chain link of app.route('/path').get(...handlers)
+    const chain = this.getRouteChain(callee.expression, filePath, context, loopBindings);
+    const caller = chain?.caller ?? callee.expression;
+    const callerName = this.getCallerName(caller);
+    if (!callerName || !this.isExpressInstance(caller, filePath, context.bindings)) {
+      return [];
     }
 
-    // Get route path from first argument
-    const args = callExpr.arguments;
     if (args.length === 0) {
-      return null;
+      return [];
     }
 
-    const routePath = this.extractRoutePath(args[0]);
-    if (!routePath) {
-      return null;
+    // A chained .all(auth) followed by more verbs acts as their middleware, not as a route
+    if (chain && methodName === 'all' && ts.isPropertyAccessExpression(callExpr.parent)) {
+      return [];
     }
 
-    // Get prefix if this is a router
-    const prefix = this.registry.getRouterPrefix(filePath, callerName);
-    const fullRoute = this.normalizePath(prefix + routePath);
+    // Get route path from first argument, or from .route() for chains
+    const routePath = chain
+      ? chain.routePath
+      : context.constants.resolveString(filePath, args[0], loopBindings);
+    if (!routePath) {
+      // app.get(name) reads a setting; with handlers it is a route we can't place
+      if (routePath === null && (chain || args.length > 1)) {
+        this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath);
+      }
+      return [];
+    }
+    if (routePath.includes(UNRESOLVED_SEGMENT)) {
+      this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath, false);
+    }
+    const handlers = this.expandHandlers(chain ? [...args] : args.slice(1), filePath, context, loopBindings);
+    if (handlers.some(ts.isSpreadElement)) {
+      this.diagnostics.report('dynamic-handlers', callExpr, sourceFile, filePath, false);
+    }
 
-    // Extract middleware chain (all arguments except last handler)
-    const middlewares = this.extractMiddlewares(args, sourceFile);
+    // Extract middleware chain (all handlers except the last one)
+    const middlewares = [...(chain?.middlewares ?? []), ...this.extractMiddlewares(handlers)];
 
-    // When there are exactly 2 args (path + one function), the function is treated
-    // as the handler. But it might actually be auth middleware (e.g., security.isAuthorized()).
+    // When there is exactly one function after the path, it is treated as the handler.
+    // But it might actually be auth middleware (e.g., security.isAuthorized()).
     // Also extract its name as potential middleware so auth extraction can check it.
-    const lastArg = args[args.length - 1];
-    if (args.length === 2 && ts.isStringLiteral(args[0])) {
-      const lastArgName = this.extractMiddlewareName(lastArg, sourceFile);
+    const lastArg = handlers[handlers.length - 1] ?? args[args.length - 1];
+    if (handlers.length === 1) {
+      const lastArgName = this.extractMiddlewareName(lastArg);
       if (lastArgName) {
         middlewares.push(lastArgName);
       }
     }
 
     // Get handler name
-    const handlerName = this.extractHandlerName(lastArg, sourceFile);
+    const handlerName = this.extractHandlerName(lastArg);
 
     // Get location
     const location = getLineAndColumn(sourceFile, callExpr.getStart(sourceFile));
 
-    // Include path-scoped middleware registered via app.use('/path', middleware())
-    const pathMiddlewares = this.registry.getPathMiddlewares(fullRoute);
-
-    // Extract authorization info
-    const authorization = this.authExtractor.extract(middlewares, {
-      isRouter: callerName !== 'app',
-      routerMiddlewares: [
-        ...this.registry.getAllMiddlewares(filePath, callerName),
-        ...pathMiddlewares,
-      ],
-    });
-
-    return createEndpoint({
-      route: fullRoute,
-      method: parseHttpMethod(methodName.toUpperCase()) ?? HttpMethod.GET,
-      handlerName,
-      type: EndpointType.Express,
-      location: {
-        filePath,
-        line: location.line,
-        column: location.column,
-      },
-      authorization,
+    // Router() or express(), by name only when its creation can't be traced
+    const instance = context.bindings.resolveExpression(filePath, caller);
+    const isRouter = instance ? instance.kind === 'router' : callerName !== 'app';
+
+    // A router mounted under several prefixes yields one endpoint per prefix.
+    // Only use() calls registered before this route (and before each mount) apply.
+    const contexts = this.registry.getMountContexts(
+      filePath,
+      callerName,
+      callExpr.getStart(sourceFile)
+    );
+
+    return contexts.map((context) => {
+      const fullRoute = this.normalizePath(`${context.prefix}/${routePath}`);
+
+      // Include path-scoped middleware registered via app.use('/path', middleware())
+      const pathMiddlewares = this.registry.getPathMiddlewares(fullRoute);
+
+      // Extract authorization info
+      const authorization = this.authExtractor.extract(middlewares, {
+        isRouter,
+        routerMiddlewares: [
+          ...context.middlewares,
+          ...this.registry.getAllMiddlewares(filePath, callerName),
+          ...pathMiddlewares,
+        ],
+      });
+
+      return createEndpoint({
+        route: fullRoute,
+        method: parseHttpMethod(methodName.toUpperCase()) ?? HttpMethod.GET,
+        handlerName,
+        type: EndpointType.Express,
+        location: {
+          filePath,
+          line: location.line,
+          column: location.column,
+        },
+        authorization,
+      });
     });
   }
 
-  private getCallerName(expression: ts.Expression): string | null {
-    if (ts.isIdentifier(expression)) {
-      return expression.text;
+  /**
+   * For `router.route('/orders/:id').all(auth).get(show).put(update)`, walks
+   * from a verb call back to `.route()`. Handlers of earlier `.all()` links run
+   * before every later verb and are returned as middlewares.
+   */
+  private getRouteChain(
+    expression: ts.Expression,
+    filePath: string,
+    context: ProjectContext,
+    loopBindings: LoopBindings
+  ): { caller: ts.Expression; routePath: string | null; middlewares: string[] } | null {
+    const allHandlers: ts.Expression[] = [];
+    let current = expression;
+
+    while (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+      const link = current.expression;
+      const linkName = link.name.text.toLowerCase();
+
+      if (linkName === 'route') {
+        const routePath = current.arguments.length > 0
+          ? context.constants.resolveString(filePath, current.arguments[0], loopBindings)
+          : null;
+
+        const middlewares = allHandlers
+          .reverse()
+          .map((handler) => this.extractMiddlewareName(handler))
+          .filter((name): name is string => name !== null);
+        return { caller: link.expression, routePath, middlewares };
+      }
+
+      if (!EXPRESS_HTTP_METHODS.has(linkName)) return null;
+      if (linkName === 'all') {
+        allHandlers.push(...[...current.arguments].reverse());
+      }
+      current = link.expression;
     }
+
     return null;
   }
 
-  private isExpressIdentifier(name: string): boolean {
-    // Common Express variable names
-    if (EXPRESS_IDENTIFIERS.has(name)) {
-      return true;
-    }
-    // Also match common patterns like userRouter, apiRouter, etc.
-    if (name.toLowerCase().includes('router') || name.toLowerCase().includes('app')) {
-      return true;
-    }
-    return false;
+  /**
+   * Replaces handlers that come from the loop's route descriptor (`r.handler`,
+   * `...r.middleware`) with the expressions in the array, so `{ handler: listUsers }`
+   * is named `listUsers`. Spreads that can't be resolved are kept as they are.
+   */
+  private expandHandlers(
+    handlers: ts.Expression[],
+    filePath: string,
+    context: ProjectContext,
+    loopBindings: LoopBindings
+  ): ts.Expression[] {
+    return handlers.flatMap((handler) => {
+      if (ts.isSpreadElement(handler)) {
+        const elements = context.constants.resolveElements(filePath, handler.expression, loopBindings);
+        return elements ? elements.map((e) => e.node as ts.Expression) : [handler];
+      }
+      const value = context.constants.resolveLoopExpression(filePath, handler, loopBindings);
+      return value && !ts.isEnumDeclaration(value.node) ? [value.node] : [handler];
+    });
   }
 
-  private extractRoutePath(node: ts.Expression): string | null {
-    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
-      return node.text;
+  /** Lower-cased method of `app.get` / `app['get']`; null when it is computed at runtime */
+  private getMethodName(
+    callee: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+    filePath: string,
+    context: ProjectContext,
+    loopBindings: LoopBindings
+  ): string | null {
+    if (ts.isPropertyAccessExpression(callee)) {
+      return callee.name.text.toLowerCase();
     }
-    // Handle template literals with embedded expressions (extract just the static parts)
-    if (ts.isTemplateExpression(node)) {
-      let path = node.head.text;
-      for (const span of node.templateSpans) {
-        path += ':param' + span.literal.text;
-      }
-      return path;
+    return context.constants
+      .resolveString(filePath, callee.argumentExpression, loopBindings)
+      ?.toLowerCase() ?? null;
+  }
+
+  private getCallerName(expression: ts.Expression): string | null {
+    if (ts.isIdentifier(expression)) {
+      return expression.text;
     }
     return null;
   }
 
-  private extractMiddlewares(
-    args: ts.NodeArray<ts.Expression>,
-    sourceFile: ts.SourceFile
-  ): string[] {
-    const middlewares: string[] = [];
+  /**
+   * Whether the receiver is an Express app or router, going by how it was
+   * created or imported and only falling back to its name when that's unknown.
+   */
+  private isExpressInstance(
+    receiver: ts.Expression,
+    filePath: string,
+    bindings: FrameworkBindings
+  ): boolean {
+    return bindings.isInstanceOf(EndpointType.Express, filePath, receiver, (name) =>
+      // Common Express variable names, and userRouter, adminApp, etc.
+      EXPRESS_IDENTIFIERS.has(name) || /(Router|App)$/.test(name)
+    );
+  }
 
-    // All arguments except possibly the last one (the main handler) could be middleware
-    for (let i = 0; i < args.length - 1; i++) {
-      const arg = args[i];
-      // Skip the route path (first arg if it's a string)
-      if (i === 0 && (ts.isStringLiteral(arg) || ts.isTemplateExpression(arg))) {
-        continue;
-      }
+  private extractMiddlewares(handlers: ts.Expression[]): string[] {
+    const middlewares: string[] = [];
 
-      const middlewareName = this.extractMiddlewareName(arg, sourceFile);
+    // All handlers except possibly the last one (the main handler) could be middleware
+    for (let i = 0; i < handlers.length - 1; i++) {
+      const arg = handlers[i];
+      const middlewareName = this.extractMiddlewareName(arg);
       if (middlewareName) {
         middlewares.push(middlewareName);
       }
@@ -233,10 +425,8 @@ export class ExpressDiscoverer implements EndpointDiscoverer {
     return middlewares;
   }
 
-  private extractMiddlewareName(
-    node: ts.Expression,
-    sourceFile: ts.SourceFile
-  ): string | null {
+  /** Nodes may come from a route array in another file, so text is read from their own source */
+  private extractMiddlewareName(node: ts.Expression): string | null {
     // Direct identifier: requireAuth
     if (ts.isIdentifier(node)) {
       return node.text;
@@ -258,14 +448,13 @@ export class ExpressDiscoverer implements EndpointDiscoverer {
 
     // Property access: auth.requireRole
     if (ts.isPropertyAccessExpression(node)) {
-      const text = node.getText(sourceFile);
-      return text;
+      return node.getText();
     }
 
     // Array of middleware: [auth, validate]
     if (ts.isArrayLiteralExpression(node)) {
       return node.elements
-        .map((el) => this.extractMiddlewareName(el, sourceFile))
+        .map((el) => this.extractMiddlewareName(el))
         .filter(Boolean)
         .join(',');
     }
@@ -273,10 +462,7 @@ export class ExpressDiscoverer implements EndpointDiscoverer {
     return null;
   }
 
-  private extractHandlerName(
-    node: ts.Expression,
-    sourceFile: ts.SourceFile
-  ): string {
+  private extractHandlerName(node: ts.Expression): string {
     // Direct identifier
     if (ts.isIdentifier(node)) {
       return node.text;
@@ -284,7 +470,7 @@ export class ExpressDiscoverer implements EndpointDiscoverer {
 
     // Property access: controller.method
     if (ts.isPropertyAccessExpression(node)) {
-      return node.getText(sourceFile);
+      return node.getText();
     }
 
     // Arrow function or function expression
@@ -9,6 +9,12 @@ import {
   createDefaultAuthorizationInfo,
   determineClassification,
 } from '../models/authorization-info.js';
+import { FrameworkBindings } from './framework-bindings.js';
+import { ProjectContext, createProjectContext, getFileContext } from './project-context.js';
+import { FastifyPluginScopes, PRE_HANDLER_HOOKS } from './fastify-plugin-scopes.js';
+import { DiagnosticCollector } from './diagnostic-collector.js';
+import { UNRESOLVED_SEGMENT } from '../analysis/constant-resolver.js';
+import { DiscoveryDiagnostic } from '../models/discovery-diagnostic.js';
 
 const FASTIFY_HTTP_METHODS = new Set([
   'get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'all'
@@ -16,6 +22,15 @@ const FASTIFY_HTTP_METHODS = new Set([
 
 const FASTIFY_IDENTIFIERS = new Set(['fastify', 'server', 'app', 'instance']);
 
+/** Route-level lifecycle hook options, in the order Fastify runs them */
+const ROUTE_HOOK_OPTIONS = new Set([
+  'onRequest', 'preParsing', 'preValidation', 'preHandler',
+  'preSerialization', 'onSend', 'onResponse', 'onTimeout', 'onError', 'onRequestAbort',
+]);
+
+// `config: { public: true }` and the like, read by a global auth hook
+const PUBLIC_CONFIG_KEY = /^(is)?public$|anonymous|skip.?auth|no.?auth/i;
+
 const AUTH_HOOK_PATTERNS = [
   /authenticate/i,
   /verify/i,
@@ -25,51 +40,157 @@ const AUTH_HOOK_PATTERNS = [
   /protected/i,
 ];
 
+/** What a route's options declare about its auth, in the shorthand and `route()` forms alike */
+interface RouteOptions {
+  /** Handlers of every lifecycle hook option, in the order written */
+  hooks: ts.Expression[];
+  /** The subset that runs before the handler, and so can reject the request */
+  preHandlerHooks: ts.Expression[];
+  /** `config: { public: true }` or `schema: { security: [] }` */
+  isPublic: boolean;
+}
+
 export class FastifyDiscoverer implements EndpointDiscoverer {
   readonly name = 'Fastify';
+  private context?: ProjectContext;
+  private pluginScopes?: FastifyPluginScopes;
+  private diagnostics = new DiagnosticCollector(EndpointType.Fastify);
+
+  /**
+   * Resolves app/router variables and path constants across the project,
+   * including imported ones, and the prefixes and hooks of registered plugins
+   */
+  async prepare(files: LoadedSourceFile[]): Promise<void> {
+    this.context = createProjectContext(files);
+    this.pluginScopes = this.createPluginScopes(files, this.context);
+    this.diagnostics.clear();
+  }
+
+  getDiagnostics(): DiscoveryDiagnostic[] {
+    return this.diagnostics.getAll();
+  }
 
   async discover(file: LoadedSourceFile): Promise<Endpoint[]> {
     const endpoints: Endpoint[] = [];
     const { sourceFile, filePath } = file;
+    const context = getFileContext(this.context, file);
+    const pluginScopes =
+      context === this.context && this.pluginScopes
+        ? this.pluginScopes
+        : this.createPluginScopes([file], context);
+
+    for (const register of pluginScopes.getUnresolvedPrefixes(filePath)) {
+      this.diagnostics.report('unresolved-path', register, sourceFile, filePath, false);
+    }
 
     const callExpressions = findNodes(sourceFile, ts.isCallExpression);
 
     for (const callExpr of callExpressions) {
       // Check for fastify.get(), fastify.post(), etc.
-      const shorthandEndpoint = this.processShorthandRoute(callExpr, sourceFile, filePath);
-      if (shorthandEndpoint) {
-        endpoints.push(shorthandEndpoint);
+      const shorthandEndpoints = this.processShorthandRoute(
+        callExpr,
+        sourceFile,
+        filePath,
+        context,
+        pluginScopes
+      );
+      if (shorthandEndpoints) {
+        endpoints.push(...shorthandEndpoints);
         continue;
       }
 
       // Check for fastify.route({ method, url, ... })
-      const routeEndpoint = this.processRouteMethod(callExpr, sourceFile, filePath);
-      if (routeEndpoint) {
-        endpoints.push(routeEndpoint);
+      const routeEndpoints = this.processRouteMethod(
+        callExpr,
+        sourceFile,
+        filePath,
+        context,
+        pluginScopes
+      );
+      if (routeEndpoints) {
+        endpoints.push(...routeEndpoints);
       }
     }
 
     return endpoints;
   }
 
+  private createPluginScopes(files: LoadedSourceFile[], context: ProjectContext): FastifyPluginScopes {
+    return new FastifyPluginScopes(files, context, (filePath, receiver) =>
+      this.isFastifyInstance(receiver, filePath, context.bindings)
+    );
+  }
+
+  /**
+   * One endpoint per plugin context the route is registered in: the
+   * `register()` prefixes in front of its path, scoped hooks before its own.
+   */
+  private createEndpoints(
+    callExpr: ts.CallExpression,
+    receiver: ts.Expression,
+    routePath: string,
+    method: HttpMethod,
+    handlerName: string,
+    routeOptions: RouteOptions,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    pluginScopes: FastifyPluginScopes
+  ): Endpoint[] {
+    const location = getLineAndColumn(sourceFile, callExpr.getStart(sourceFile));
+
+    // Unresolved register() prefixes are reported where they are registered
+    if (routePath.includes(UNRESOLVED_SEGMENT)) {
+      this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath, false);
+    }
+
+    return pluginScopes.getContexts(filePath, receiver).map((plugin) => {
+      const route = this.normalizePath(`${plugin.prefix}/${routePath}`);
+
+      return createEndpoint({
+        route,
+        method,
+        handlerName,
+        type: EndpointType.Fastify,
+        location: {
+          filePath,
+          line: location.line,
+          column: location.column,
+        },
+        authorization: this.buildAuthorization(plugin.hooks, routeOptions),
+      });
+    });
+  }
+
   private processShorthandRoute(
     callExpr: ts.CallExpression,
     sourceFile: ts.SourceFile,
-    filePath: string
-  ): Endpoint | null {
-    if (!ts.isPropertyAccessExpression(callExpr.expression)) {
+    filePath: string,
+    context: ProjectContext,
+    pluginScopes: FastifyPluginScopes
+  ): Endpoint[] | null {
+    const propAccess = callExpr.expression;
+    if (!ts.isPropertyAccessExpression(propAccess) && !ts.isElementAccessExpression(propAccess)) {
       return null;
     }
 
-    const propAccess = callExpr.expression;
-    const methodName = propAccess.name.text.toLowerCase();
+    const methodName = this.getMethodName(propAccess, filePath, context);
+    if (methodName === null) {
+      // fastify[method]('/path', handler) with a method we can't resolve
+      if (
+        callExpr.arguments.length > 1 &&
+        this.isFastifyInstance(propAccess.expression, filePath, context.bindings)
+      ) {
+        this.diagnostics.report('computed-method', callExpr, sourceFile, filePath);
+      }
+      return null;
+    }
 
     if (!FASTIFY_HTTP_METHODS.has(methodName)) {
       return null;
     }
 
     const callerName = this.getCallerName(propAccess.expression);
-    if (!callerName || !this.isFastifyIdentifier(callerName)) {
+    if (!callerName || !this.isFastifyInstance(propAccess.expression, filePath, context.bindings)) {
       return null;
     }
 
@@ -79,19 +200,24 @@ export class FastifyDiscoverer implements EndpointDiscoverer {
     }
 
     // First arg is route path
-    const routePath = this.extractStringValue(args[0]);
-    if (!routePath) {
+    const routePath = context.constants.resolveString(filePath, args[0]);
+    if (routePath === null) {
+      if (args.length > 1) {
+        this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath);
+      }
       return null;
     }
+    if (args.some(ts.isSpreadElement)) {
+      this.diagnostics.report('dynamic-handlers', callExpr, sourceFile, filePath, false);
+    }
 
     // Extract options/handler
     let handlerName = 'anonymous';
-    let authorization = createDefaultAuthorizationInfo();
+    let routeOptions: RouteOptions = { hooks: [], preHandlerHooks: [], isPublic: false };
 
     // Check for options object: fastify.get('/path', { preHandler: [] }, handler)
     if (args.length >= 2 && ts.isObjectLiteralExpression(args[1])) {
-      const options = args[1];
-      authorization = this.extractAuthFromOptions(options, sourceFile);
+      routeOptions = this.getRouteOptions(args[1]);
 
       if (args.length >= 3) {
         handlerName = this.extractHandlerName(args[2], sourceFile);
@@ -100,29 +226,26 @@ export class FastifyDiscoverer implements EndpointDiscoverer {
       handlerName = this.extractHandlerName(args[1], sourceFile);
     }
 
-    authorization.classification = determineClassification(authorization);
-
-    const location = getLineAndColumn(sourceFile, callExpr.getStart(sourceFile));
-
-    return createEndpoint({
-      route: this.normalizePath(routePath),
-      method: parseHttpMethod(methodName.toUpperCase()) ?? HttpMethod.GET,
+    return this.createEndpoints(
+      callExpr,
+      propAccess.expression,
+      routePath,
+      parseHttpMethod(methodName.toUpperCase()) ?? HttpMethod.GET,
       handlerName,
-      type: EndpointType.Fastify,
-      location: {
-        filePath,
-        line: location.line,
-        column: location.column,
-      },
-      authorization,
-    });
+      routeOptions,
+      sourceFile,
+      filePath,
+      pluginScopes
+    );
   }
 
   private processRouteMethod(
     callExpr: ts.CallExpression,
     sourceFile: ts.SourceFile,
-    filePath: string
-  ): Endpoint | null {
+    filePath: string,
+    context: ProjectContext,
+    pluginScopes: FastifyPluginScopes
+  ): Endpoint[] | null {
     if (!ts.isPropertyAccessExpression(callExpr.expression)) {
       return null;
     }
@@ -133,20 +256,28 @@ export class FastifyDiscoverer implements EndpointDiscoverer {
     }
 
     const callerName = this.getCallerName(propAccess.expression);
-    if (!callerName || !this.isFastifyIdentifier(callerName)) {
+    if (!callerName || !this.isFastifyInstance(propAccess.expression, filePath, context.bindings)) {
       return null;
     }
 
     const args = callExpr.arguments;
-    if (args.length === 0 || !ts.isObjectLiteralExpression(args[0])) {
+    if (args.length === 0) {
+      return null;
+    }
+    if (!ts.isObjectLiteralExpression(args[0])) {
+      // fastify.route(routeOptions) built elsewhere; a path here is Express's app.route('/path')
+      if (context.constants.resolveString(filePath, args[0]) === null) {
+        this.diagnostics.report('dynamic-options', callExpr, sourceFile, filePath);
+      }
       return null;
     }
 
     const options = args[0];
     let method: HttpMethod | null = null;
     let url: string | null = null;
+    let hasMethod = false;
+    let hasUrl = false;
     let handlerName = 'handler';
-    const authorization = createDefaultAuthorizationInfo();
 
     for (const prop of options.properties) {
       if (!ts.isPropertyAssignment(prop) || !ts.isIdentifier(prop.name)) {
@@ -156,52 +287,54 @@ export class FastifyDiscoverer implements EndpointDiscoverer {
       const propName = prop.name.text;
 
       if (propName === 'method') {
-        const methodStr = this.extractStringValue(prop.initializer);
+        hasMethod = true;
+        const methodStr = context.constants.resolveString(filePath, prop.initializer);
         if (methodStr) {
           method = parseHttpMethod(methodStr.toUpperCase()) ?? null;
         }
       }
 
       if (propName === 'url') {
-        url = this.extractStringValue(prop.initializer);
+        url = context.constants.resolveString(filePath, prop.initializer);
+        hasUrl = true;
       }
 
       if (propName === 'handler') {
         handlerName = this.extractHandlerName(prop.initializer, sourceFile);
       }
-
-      if (propName === 'preHandler' || propName === 'onRequest') {
-        this.extractHooksAuth(prop.initializer, sourceFile, authorization);
-      }
     }
 
+    if (hasMethod && !method) {
+      this.diagnostics.report('unresolved-method', callExpr, sourceFile, filePath);
+      return null;
+    }
+    if (hasUrl && url === null) {
+      this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath);
+      return null;
+    }
     if (!method || !url) {
       return null;
     }
 
-    authorization.classification = determineClassification(authorization);
-
-    const location = getLineAndColumn(sourceFile, callExpr.getStart(sourceFile));
-
-    return createEndpoint({
-      route: this.normalizePath(url),
+    return this.createEndpoints(
+      callExpr,
+      propAccess.expression,
+      url,
       method,
       handlerName,
-      type: EndpointType.Fastify,
-      location: {
-        filePath,
-        line: location.line,
-        column: location.column,
-      },
-      authorization,
-    });
+      this.getRouteOptions(options),
+      sourceFile,
+      filePath,
+      pluginScopes
+    );
   }
 
-  private extractAuthFromOptions(
-    options: ts.ObjectLiteralExpression,
-    sourceFile: ts.SourceFile
-  ): AuthorizationInfo {
-    const auth = createDefaultAuthorizationInfo();
+  /**
+   * Lifecycle hooks and public markers of a route's options. Every hook goes
+   * into the middleware chain; only those before the handler can authenticate.
+   */
+  private getRouteOptions(options: ts.ObjectLiteralExpression): RouteOptions {
+    const result: RouteOptions = { hooks: [], preHandlerHooks: [], isPublic: false };
 
     for (const prop of options.properties) {
       if (!ts.isPropertyAssignment(prop) || !ts.isIdentifier(prop.name)) {
@@ -209,59 +342,93 @@ export class FastifyDiscoverer implements EndpointDiscoverer {
       }
 
       const propName = prop.name.text;
+      const node = prop.initializer;
 
-      if (propName === 'preHandler' || propName === 'onRequest') {
-        this.extractHooksAuth(prop.initializer, sourceFile, auth);
+      if (ROUTE_HOOK_OPTIONS.has(propName)) {
+        const handlers = ts.isArrayLiteralExpression(node) ? [...node.elements] : [node];
+        result.hooks.push(...handlers);
+        if (PRE_HANDLER_HOOKS.has(propName)) {
+          result.preHandlerHooks.push(...handlers);
+        }
+      } else if (propName === 'config') {
+        result.isPublic ||= this.hasPublicConfig(node);
+      } else if (propName === 'schema') {
+        result.isPublic ||= this.hasEmptySecurity(node);
       }
     }
 
-    return auth;
+    return result;
   }
 
-  private extractHooksAuth(
-    node: ts.Expression,
-    sourceFile: ts.SourceFile,
-    auth: AuthorizationInfo
-  ): void {
-    const hooks: string[] = [];
-
-    if (ts.isArrayLiteralExpression(node)) {
-      for (const elem of node.elements) {
-        const hookName = this.extractHookName(elem, sourceFile);
-        if (hookName) {
-          hooks.push(hookName);
-        }
-      }
-    } else {
-      const hookName = this.extractHookName(node, sourceFile);
-      if (hookName) {
-        hooks.push(hookName);
-      }
-    }
+  /** `config: { public: true }`, `config: { skipAuth: true }`, ... */
+  private hasPublicConfig(node: ts.Expression): boolean {
+    if (!ts.isObjectLiteralExpression(node)) return false;
+    return node.properties.some(
+      (prop) =>
+        ts.isPropertyAssignment(prop) &&
+        PUBLIC_CONFIG_KEY.test(this.getPropertyName(prop)) &&
+        prop.initializer.kind === ts.SyntaxKind.TrueKeyword
+    );
+  }
 
-    auth.middlewareChain.push(...hooks);
+  /** `schema: { security: [] }`: the OpenAPI way of opting a route out of global security */
+  private hasEmptySecurity(node: ts.Expression): boolean {
+    if (!ts.isObjectLiteralExpression(node)) return false;
+    return node.properties.some(
+      (prop) =>
+        ts.isPropertyAssignment(prop) &&
+        this.getPropertyName(prop) === 'security' &&
+        ts.isArrayLiteralExpression(prop.initializer) &&
+        prop.initializer.elements.length === 0
+    );
+  }
 
-    for (const hook of hooks) {
+  /** `security`, `'security'` and `"security"` alike */
+  private getPropertyName(prop: ts.PropertyAssignment): string {
+    return ts.isIdentifier(prop.name) || ts.isStringLiteral(prop.name) ? prop.name.text : '';
+  }
+
+  private buildAuthorization(
+    pluginHooks: ts.Expression[],
+    routeOptions: RouteOptions
+  ): AuthorizationInfo {
+    const auth = createDefaultAuthorizationInfo();
+
+    auth.middlewareChain.push(...this.getHookNames([...pluginHooks, ...routeOptions.hooks]));
+
+    for (const hook of this.getHookNames([...pluginHooks, ...routeOptions.preHandlerHooks])) {
       if (this.isAuthHook(hook)) {
         auth.isAuthenticated = true;
         auth.guardNames.push(hook);
       }
     }
+
+    // Like NestJS @Public(): kept alongside isAuthenticated so AP003 sees the conflict
+    auth.isExplicitlyPublic = routeOptions.isPublic;
+
+    auth.classification = determineClassification(auth);
+    return auth;
+  }
+
+  private getHookNames(nodes: ts.Expression[]): string[] {
+    return nodes
+      .map((node) => this.extractHookName(node))
+      .filter((name): name is string => name !== null);
   }
 
-  private extractHookName(node: ts.Expression, sourceFile: ts.SourceFile): string | null {
+  private extractHookName(node: ts.Expression): string | null {
     if (ts.isIdentifier(node)) {
       return node.text;
     }
     if (ts.isPropertyAccessExpression(node)) {
-      return node.getText(sourceFile);
+      return node.getText();
     }
     if (ts.isCallExpression(node)) {
       if (ts.isIdentifier(node.expression)) {
         return node.expression.text;
       }
       if (ts.isPropertyAccessExpression(node.expression)) {
-        return node.expression.getText(sourceFile);
+        return node.expression.getText();
       }
     }
     return null;
@@ -271,6 +438,18 @@ export class FastifyDiscoverer implements EndpointDiscoverer {
     return AUTH_HOOK_PATTERNS.some((pattern) => pattern.test(hookName));
   }
 
+  /** Lower-cased method of `router.get` / `router['get']`; null when it is computed at runtime */
+  private getMethodName(
+    callee: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+    filePath: string,
+    context: ProjectContext
+  ): string | null {
+    if (ts.isPropertyAccessExpression(callee)) {
+      return callee.name.text.toLowerCase();
+    }
+    return context.constants.resolveString(filePath, callee.argumentExpression)?.toLowerCase() ?? null;
+  }
+
   private getCallerName(expression: ts.Expression): string | null {
     if (ts.isIdentifier(expression)) {
       return expression.text;
@@ -278,18 +457,19 @@ export class FastifyDiscoverer implements EndpointDiscoverer {
     return null;
   }
 
-  private isFastifyIdentifier(name: string): boolean {
-    if (FASTIFY_IDENTIFIERS.has(name.toLowerCase())) {
-      return true;
-    }
-    return name.toLowerCase().includes('fastify');
-  }
-
-  private extractStringValue(node: ts.Expression): string | null {
-    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
-      return node.text;
-    }
-    return null;
+  /**
+   * Whether the receiver is a Fastify instance, going by how it was created,
+   * imported or passed to a plugin, and only falling back to its name when
+   * that's unknown.
+   */
+  private isFastifyInstance(
+    receiver: ts.Expression,
+    filePath: string,
+    bindings: FrameworkBindings
+  ): boolean {
+    return bindings.isInstanceOf(EndpointType.Fastify, filePath, receiver, (name) =>
+      FASTIFY_IDENTIFIERS.has(name.toLowerCase()) || name.toLowerCase().includes('fastify')
+    );
   }
 
   private extractHandlerName(node: ts.Expression, sourceFile: ts.SourceFile): string {
@@ -0,0 +1,402 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile, findNodes } from '../analysis/source-file-loader.js';
+import { UNRESOLVED_SEGMENT } from '../analysis/constant-resolver.js';
+import { ProjectContext } from './project-context.js';
+
+/** Prefix and scoped hooks the routes of one plugin scope run under through one `register` chain */
+export interface PluginContext {
+  prefix: string;
+  /** Handlers of `addHook()` calls in this scope and its ancestors, outermost first */
+  hooks: ts.Expression[];
+}
+
+/** `parent.register(plugin, { prefix })` */
+interface PluginRegistration {
+  parent: string;
+  prefix: string;
+  /** False for plugins wrapped in fastify-plugin, which share their parent's scope */
+  encapsulated: boolean;
+}
+
+/** A plugin function and the file it is declared in */
+interface PluginFunction {
+  filePath: string;
+  fn: ts.FunctionLikeDeclaration;
+  encapsulated: boolean;
+}
+
+/** Lifecycle hooks that run before the handler and can reject the request */
+export const PRE_HANDLER_HOOKS = new Set(['onRequest', 'preParsing', 'preValidation', 'preHandler']);
+
+const FASTIFY_PLUGIN_WRAPPERS = new Set(['fastify-plugin']);
+const UNBOUND_PLUGIN_WRAPPERS = new Set(['fp', 'fastifyPlugin']);
+
+const MAX_DEPTH = 20;
+
+/**
+ * Fastify's plugin encapsulation: each registered plugin function is a scope
+ * whose routes get the `prefix` of every `register()` on the way down and the
+ * hooks added to the scope and its ancestors.
+ *
+ * ```ts
+ * app.register(async (api) => {
+ *   api.addHook('onRequest', app.authenticate);
+ *   api.register(usersRoutes, { prefix: '/users' });   // GET /api/users/:id, authenticated
+ * }, { prefix: '/api' });
+ * ```
+ *
+ * Plugins wrapped in `fastify-plugin` are not encapsulated: their hooks apply
+ * to the scope registering them, and a `prefix` has no effect on them.
+ */
+export class FastifyPluginScopes {
+  private context: ProjectContext;
+  private sourceFiles: Map<string, ts.SourceFile>;
+  private registrations = new Map<string, PluginRegistration[]>();
+  private hooks = new Map<string, ts.Expression[]>();
+  /** Scope key -> fastify-plugin wrapped plugins it registers */
+  private sharedChildren = new Map<string, string[]>();
+  /** File -> `register()` calls whose `prefix` could not be (fully) resolved */
+  private unresolvedPrefixes = new Map<string, ts.CallExpression[]>();
+
+  constructor(
+    files: LoadedSourceFile[],
+    context: ProjectContext,
+    isFastifyInstance: (filePath: string, receiver: ts.Expression) => boolean
+  ) {
+    this.context = context;
+    this.sourceFiles = new Map(files.map((f) => [f.filePath, f.sourceFile]));
+
+    for (const file of files) {
+      for (const call of findNodes(file.sourceFile, ts.isCallExpression)) {
+        const callee = call.expression;
+        if (
+          !ts.isPropertyAccessExpression(callee) ||
+          call.arguments.length === 0 ||
+          !isFastifyInstance(file.filePath, callee.expression)
+        ) {
+          continue;
+        }
+        if (callee.name.text === 'register') {
+          this.collectRegistration(file.filePath, callee.expression, call);
+        } else if (callee.name.text === 'addHook') {
+          this.collectHook(file.filePath, callee.expression, call);
+        }
+      }
+    }
+  }
+
+  /**
+   * One context per `register` chain the scope owning `receiver` is reached
+   * through, or a single root context when it is never registered.
+   */
+  getContexts(filePath: string, receiver: ts.Expression): PluginContext[] {
+    return this.collectContexts(this.getScopeKey(filePath, receiver), new Set());
+  }
+
+  /** `register(plugin, { prefix: getPrefix() })` calls in a file; their routes get `:unresolved` */
+  getUnresolvedPrefixes(filePath: string): ts.CallExpression[] {
+    return this.unresolvedPrefixes.get(filePath) ?? [];
+  }
+
+  private collectRegistration(filePath: string, receiver: ts.Expression, call: ts.CallExpression): void {
+    const plugin = this.resolvePlugin(filePath, call.arguments[0], 0);
+    if (!plugin) return;
+
+    const parent = this.getScopeKey(filePath, receiver);
+    const child = this.getPluginKey(plugin.filePath, plugin.fn);
+    if (!plugin.encapsulated) {
+      this.append(this.sharedChildren, parent, child);
+    }
+
+    const options = call.arguments[1];
+    const prefixNode = options && this.getProperty(options, 'prefix');
+    const prefix = prefixNode
+      ? (this.context.constants.resolveString(filePath, prefixNode) ?? UNRESOLVED_SEGMENT)
+      : '';
+    if (prefix.includes(UNRESOLVED_SEGMENT)) {
+      this.append(this.unresolvedPrefixes, filePath, call);
+    }
+    this.append(this.registrations, child, { parent, prefix, encapsulated: plugin.encapsulated });
+  }
+
+  /** `instance.addHook('onRequest', instance.authenticate)` */
+  private collectHook(filePath: string, receiver: ts.Expression, call: ts.CallExpression): void {
+    const [name, handler] = call.arguments;
+    const hookName = this.context.constants.resolveString(filePath, name);
+    if (!handler || !hookName || !PRE_HANDLER_HOOKS.has(hookName)) return;
+
+    const handlers = ts.isArrayLiteralExpression(handler) ? [...handler.elements] : [handler];
+    for (const element of handlers) {
+      this.append(this.hooks, this.getScopeKey(filePath, receiver), element);
+    }
+  }
+
+  private collectContexts(key: string, visiting: Set<string>): PluginContext[] {
+    if (visiting.has(key) || visiting.size > MAX_DEPTH) return [];
+    visiting.add(key);
+
+    const own = this.getScopeHooks(key, new Set());
+
+    // Keyed by prefix: a plugin registered twice under the same path is one set of routes
+    const contexts = new Map<string, PluginContext>();
+    for (const registration of this.registrations.get(key) ?? []) {
+      for (const parent of this.collectContexts(registration.parent, visiting)) {
+        // A shared plugin's hooks are already part of its parent's
+        const context = registration.encapsulated
+          ? { prefix: joinPaths(parent.prefix, registration.prefix), hooks: [...parent.hooks, ...own] }
+          : parent;
+        if (!contexts.has(context.prefix)) {
+          contexts.set(context.prefix, context);
+        }
+      }
+    }
+
+    visiting.delete(key);
+    return contexts.size > 0 ? [...contexts.values()] : [{ prefix: '', hooks: own }];
+  }
+
+  /** Hooks added in a scope, including those of fastify-plugin wrapped plugins it registers */
+  private getScopeHooks(key: string, visiting: Set<string>): ts.Expression[] {
+    if (visiting.has(key)) return [];
+    visiting.add(key);
+    return [
+      ...(this.hooks.get(key) ?? []),
+      ...(this.sharedChildren.get(key) ?? []).flatMap((child) => this.getScopeHooks(child, visiting)),
+    ];
+  }
+
+  /**
+   * The scope a receiver belongs to: the plugin function whose first parameter
+   * it is, otherwise the app variable it names (followed across imports and
+   * `const ctx = server` aliases).
+   */
+  private getScopeKey(filePath: string, receiver: ts.Expression, depth = 0): string {
+    if (!ts.isIdentifier(receiver)) {
+      return `${filePath}#${receiver.getText()}`;
+    }
+
+    const name = receiver.text;
+    for (let node: ts.Node | undefined = receiver.parent; node; node = node.parent) {
+      if (!ts.isFunctionLike(node)) continue;
+      const index = node.parameters.findIndex((p) => ts.isIdentifier(p.name) && p.name.text === name);
+      if (index === 0 && this.isFunctionLikeDeclaration(node)) {
+        return this.getPluginKey(filePath, node);
+      }
+      if (index > 0) break;
+    }
+
+    const alias = depth < MAX_DEPTH ? this.findAlias(filePath, receiver) : null;
+    if (alias) {
+      return this.getScopeKey(alias.filePath, alias.target, depth + 1);
+    }
+
+    const ref = this.context.moduleGraph.resolveReference(filePath, receiver);
+    return ref ? `${ref.filePath}#${ref.name}` : `${filePath}#${name}`;
+  }
+
+  /** The instance `const ctx = server` makes `ctx` another name for, in scope or imported */
+  private findAlias(
+    filePath: string,
+    identifier: ts.Identifier
+  ): { filePath: string; target: ts.Identifier } | null {
+    let declaration: ts.VariableDeclaration | undefined;
+    let declarationFile = filePath;
+    for (let node: ts.Node | undefined = identifier.parent; node && !declaration; node = node.parent) {
+      if (ts.isBlock(node) || ts.isSourceFile(node)) {
+        declaration = this.findVariable(node.statements, identifier.text);
+      }
+    }
+
+    if (!declaration) {
+      const ref = this.context.moduleGraph.resolveReference(filePath, identifier);
+      const sourceFile = ref && this.sourceFiles.get(ref.filePath);
+      declaration = ref && sourceFile ? this.findVariable(sourceFile.statements, ref.name) : undefined;
+      declarationFile = ref?.filePath ?? filePath;
+    }
+
+    if (!declaration || (declaration.parent.flags & ts.NodeFlags.Const) === 0) return null;
+    const target = declaration.initializer && this.unwrap(declaration.initializer);
+    return target && ts.isIdentifier(target) ? { filePath: declarationFile, target } : null;
+  }
+
+  private findVariable(
+    statements: ts.NodeArray<ts.Statement>,
+    name: string
+  ): ts.VariableDeclaration | undefined {
+    for (const statement of statements) {
+      if (!ts.isVariableStatement(statement)) continue;
+      const declaration = statement.declarationList.declarations.find(
+        (d) => ts.isIdentifier(d.name) && d.name.text === name
+      );
+      if (declaration) return declaration;
+    }
+    return undefined;
+  }
+
+  private getPluginKey(filePath: string, fn: ts.FunctionLikeDeclaration): string {
+    return `${filePath}@${fn.getStart()}`;
+  }
+
+  /**
+   * The function a `register()` argument refers to: inline, declared in the
+   * file or imported, `import('./routes')` / `require('./routes')`, or wrapped
+   * in `fp()` from fastify-plugin.
+   */
+  private resolvePlugin(filePath: string, node: ts.Expression, depth: number): PluginFunction | null {
+    if (depth > MAX_DEPTH) return null;
+    const expression = this.unwrap(node);
+
+    if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+      return { filePath, fn: expression, encapsulated: true };
+    }
+
+    if (ts.isCallExpression(expression)) {
+      const specifier = this.getModuleSpecifier(expression);
+      if (specifier) {
+        const target = this.context.moduleGraph.resolveModule(filePath, specifier);
+        return target ? this.resolveDefaultExport(target, depth + 1) : null;
+      }
+      if (this.isPluginWrapper(filePath, expression.expression) && expression.arguments.length > 0) {
+        const wrapped = this.resolvePlugin(filePath, expression.arguments[0], depth + 1);
+        return wrapped && { ...wrapped, encapsulated: false };
+      }
+      return null;
+    }
+
+    if (!ts.isIdentifier(expression) && !ts.isPropertyAccessExpression(expression)) {
+      return null;
+    }
+
+    const ref = this.context.moduleGraph.resolveReference(filePath, expression);
+    const declaration = ref && this.findDeclaration(ref.filePath, ref.name);
+    if (ref && declaration) {
+      return ts.isFunctionDeclaration(declaration)
+        ? { filePath: ref.filePath, fn: declaration, encapsulated: true }
+        : this.resolvePlugin(ref.filePath, declaration, depth + 1);
+    }
+
+    // import routes from './routes' where the default export is not a named declaration
+    const binding = ts.isIdentifier(expression)
+      ? this.context.moduleGraph.getImportBinding(filePath, expression.text)
+      : undefined;
+    if (binding && (binding.importedName === 'default' || binding.importedName === '*')) {
+      const target = this.context.moduleGraph.resolveModule(filePath, binding.specifier);
+      return target ? this.resolveDefaultExport(target, depth + 1) : null;
+    }
+    return null;
+  }
+
+  /** `export default fp(routes)`, `export default async function (fastify) {}`, `module.exports = ...` */
+  private resolveDefaultExport(filePath: string, depth: number): PluginFunction | null {
+    const sourceFile = this.sourceFiles.get(filePath);
+    if (!sourceFile) return null;
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isExportAssignment(statement)) {
+        return this.resolvePlugin(filePath, statement.expression, depth);
+      }
+      if (
+        ts.isFunctionDeclaration(statement) &&
+        statement.body &&
+        statement.modifiers?.some((m) => m.kind === ts.SyntaxKind.DefaultKeyword)
+      ) {
+        return { filePath, fn: statement, encapsulated: true };
+      }
+      if (
+        ts.isExpressionStatement(statement) &&
+        ts.isBinaryExpression(statement.expression) &&
+        statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+        statement.expression.left.getText() === 'module.exports'
+      ) {
+        return this.resolvePlugin(filePath, statement.expression.right, depth);
+      }
+    }
+    return null;
+  }
+
+  /** A function declaration, or the initializer of a variable, declared at the top level of a file */
+  private findDeclaration(
+    filePath: string,
+    name: string
+  ): ts.FunctionDeclaration | ts.Expression | null {
+    const sourceFile = this.sourceFiles.get(filePath);
+    if (!sourceFile) return null;
+
+    for (const statement of sourceFile.statements) {
+      if (ts.isFunctionDeclaration(statement) && statement.name?.text === name && statement.body) {
+        return statement;
+      }
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.name.text === name) {
+          return declaration.initializer ?? null;
+        }
+      }
+    }
+    return null;
+  }
+
+  /** `fp` imported from fastify-plugin, or called by its usual names without an import in view */
+  private isPluginWrapper(filePath: string, callee: ts.Expression): boolean {
+    if (!ts.isIdentifier(callee)) return false;
+    const binding = this.context.moduleGraph.getImportBinding(filePath, callee.text);
+    return binding
+      ? FASTIFY_PLUGIN_WRAPPERS.has(binding.specifier)
+      : UNBOUND_PLUGIN_WRAPPERS.has(callee.text);
+  }
+
+  /** The module of `import('./routes')` or `require('./routes')` */
+  private getModuleSpecifier(call: ts.CallExpression): string | null {
+    const isImport = call.expression.kind === ts.SyntaxKind.ImportKeyword;
+    const isRequire = ts.isIdentifier(call.expression) && call.expression.text === 'require';
+    const [arg] = call.arguments;
+    return (isImport || isRequire) && arg && ts.isStringLiteral(arg) ? arg.text : null;
+  }
+
+  private getProperty(node: ts.Expression, name: string): ts.Expression | undefined {
+    if (!ts.isObjectLiteralExpression(node)) return undefined;
+    for (const prop of node.properties) {
+      if (ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) && prop.name.text === name) {
+        return prop.initializer;
+      }
+    }
+    return undefined;
+  }
+
+  private isFunctionLikeDeclaration(
+    node: ts.SignatureDeclaration
+  ): node is ts.FunctionLikeDeclaration {
+    return (
+      ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node)
+    );
+  }
+
+  private unwrap(node: ts.Expression): ts.Expression {
+    let current = node;
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAwaitExpression(current) ||
+      ts.isAsExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  private append<T>(map: Map<string, T[]>, key: string, value: T): void {
+    const values = map.get(key);
+    if (values) {
+      values.push(value);
+    } else {
+      map.set(key, [value]);
+    }
+  }
+}
+
+function joinPaths(prefix: string, path: string): string {
+  const joined = `${prefix}/${path}`.replace(/\/+/g, '/');
+  return joined.length > 1 && joined.endsWith('/') ? joined.slice(0, -1) : joined;
+}
@@ -0,0 +1,421 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile, findNodes } from '../analysis/source-file-loader.js';
+import { ModuleGraph } from '../analysis/module-graph.js';
+import { EndpointType } from '../models/endpoint-type.js';
+
+export type FrameworkInstanceKind = 'app' | 'router';
+
+/** An Express/Koa/Fastify application or router instance */
+export interface FrameworkInstance {
+  framework: EndpointType;
+  kind: FrameworkInstanceKind;
+}
+
+const EXPRESS_APP: FrameworkInstance = { framework: EndpointType.Express, kind: 'app' };
+const EXPRESS_ROUTER: FrameworkInstance = { framework: EndpointType.Express, kind: 'router' };
+const KOA_APP: FrameworkInstance = { framework: EndpointType.Koa, kind: 'app' };
+const KOA_ROUTER: FrameworkInstance = { framework: EndpointType.Koa, kind: 'router' };
+const FASTIFY_INSTANCE: FrameworkInstance = { framework: EndpointType.Fastify, kind: 'app' };
+
+/**
+ * What each export of a framework package creates when called, instantiated
+ * or used as a type. `default` and `*` cover default, namespace and `require` imports.
+ */
+const FRAMEWORK_PACKAGES: Record<string, Record<string, FrameworkInstance>> = {
+  express: {
+    default: EXPRESS_APP,
+    '*': EXPRESS_APP,
+    Express: EXPRESS_APP,
+    Application: EXPRESS_APP,
+    Router: EXPRESS_ROUTER,
+    IRouter: EXPRESS_ROUTER,
+  },
+  koa: { default: KOA_APP, '*': KOA_APP },
+  '@koa/router': { default: KOA_ROUTER, '*': KOA_ROUTER, Router: KOA_ROUTER },
+  'koa-router': { default: KOA_ROUTER, '*': KOA_ROUTER, Router: KOA_ROUTER },
+  fastify: {
+    default: FASTIFY_INSTANCE,
+    '*': FASTIFY_INSTANCE,
+    fastify: FASTIFY_INSTANCE,
+    FastifyInstance: FASTIFY_INSTANCE,
+  },
+};
+
+/**
+ * Factories called without an import in scope. Other unbound calls stay
+ * undetermined, unless they are of a known non-framework global.
+ */
+const UNBOUND_FACTORIES: Record<'call' | 'new', Record<string, FrameworkInstance>> = {
+  call: {
+    express: EXPRESS_APP,
+    Router: EXPRESS_ROUTER,
+    fastify: FASTIFY_INSTANCE,
+    Fastify: FASTIFY_INSTANCE,
+  },
+  new: { Koa: KOA_APP },
+};
+
+/** Globals that never create an app or router, called or instantiated (`new Map()`, `Object.create()`) */
+const NON_FRAMEWORK_GLOBALS = new Set([
+  'Array', 'Object', 'Map', 'Set', 'WeakMap', 'WeakSet', 'Promise', 'Proxy', 'Date', 'RegExp',
+  'Error', 'URL', 'URLSearchParams', 'Headers', 'Request', 'Response', 'FormData',
+  'AbortController', 'EventEmitter', 'Buffer', 'String', 'Number', 'Boolean', 'Symbol', 'BigInt',
+  'JSON', 'Reflect',
+]);
+
+const FASTIFY_PLUGIN_WRAPPERS = new Set(['fastify-plugin']);
+
+const MAX_RESOLUTION_DEPTH = 10;
+
+/**
+ * Works out which framework an app/router variable belongs to from how it is
+ * created (`express()`, `express.Router()`, `new Router()` from `@koa/router`,
+ * `Fastify()`), its type annotation, or the import it came from, so that
+ * discoverers don't have to guess from variable names.
+ *
+ * Resolution yields a FrameworkInstance, `null` when the variable is known not
+ * to be a framework instance (e.g. `new Mapper()`), or `undefined` when it
+ * cannot be determined (untyped function parameters, unresolved imports).
+ */
+export class FrameworkBindings {
+  private moduleGraph: ModuleGraph;
+  private sourceFiles: Map<string, ts.SourceFile>;
+  private projectFrameworks: Set<EndpointType>;
+
+  constructor(files: LoadedSourceFile[], moduleGraph?: ModuleGraph) {
+    this.moduleGraph = moduleGraph ?? new ModuleGraph(files);
+    this.sourceFiles = new Map(files.map((f) => [f.filePath, f.sourceFile]));
+    this.projectFrameworks = new Set(files.flatMap((f) => [...this.getFileFrameworks(f.filePath)]));
+  }
+
+  hasFile(filePath: string): boolean {
+    return this.sourceFiles.has(filePath);
+  }
+
+  /** Framework instance the expression (typically a call receiver) evaluates to */
+  resolveExpression(filePath: string, expression: ts.Expression): FrameworkInstance | null | undefined {
+    return this.classifyExpression(filePath, expression, 0);
+  }
+
+  /** Framework instance of a top-level variable, e.g. one resolved through ModuleGraph */
+  resolveDeclaration(filePath: string, name: string): FrameworkInstance | null | undefined {
+    return this.classifyTopLevel(filePath, name, 0);
+  }
+
+  /**
+   * True when `expression` is an instance of `framework`. When that can't be
+   * determined, falls back to `nameHeuristic` on the variable name, but only
+   * in files that could be using the framework: files importing it, or files
+   * importing no server framework in a project that uses it.
+   */
+  isInstanceOf(
+    framework: EndpointType,
+    filePath: string,
+    expression: ts.Expression,
+    nameHeuristic: (name: string) => boolean
+  ): boolean {
+    const instance = this.resolveExpression(filePath, expression);
+    if (instance !== undefined) {
+      return instance?.framework === framework;
+    }
+
+    if (!ts.isIdentifier(expression) || !nameHeuristic(expression.text)) {
+      return false;
+    }
+
+    const fileFrameworks = this.getFileFrameworks(filePath);
+    if (fileFrameworks.size > 0) {
+      return fileFrameworks.has(framework);
+    }
+    return this.projectFrameworks.size === 0 || this.projectFrameworks.has(framework);
+  }
+
+  private classifyExpression(
+    filePath: string,
+    node: ts.Expression,
+    depth: number
+  ): FrameworkInstance | null | undefined {
+    if (depth > MAX_RESOLUTION_DEPTH) return undefined;
+    const expression = this.unwrap(node);
+
+    if (ts.isIdentifier(expression)) {
+      return this.classifyIdentifier(filePath, expression, depth + 1);
+    }
+
+    if (ts.isCallExpression(expression) || ts.isNewExpression(expression)) {
+      return this.resolveFactory(filePath, expression);
+    }
+
+    if (
+      ts.isLiteralExpression(expression) ||
+      ts.isObjectLiteralExpression(expression) ||
+      ts.isArrayLiteralExpression(expression) ||
+      ts.isArrowFunction(expression) ||
+      ts.isFunctionExpression(expression)
+    ) {
+      return null;
+    }
+
+    return undefined;
+  }
+
+  private classifyIdentifier(
+    filePath: string,
+    identifier: ts.Identifier,
+    depth: number
+  ): FrameworkInstance | null | undefined {
+    const declaration = this.findLocalDeclaration(identifier);
+    if (declaration && ts.isParameter(declaration)) {
+      return this.classifyParameter(filePath, declaration);
+    }
+    if (declaration) {
+      return this.classifyVariable(filePath, declaration, depth);
+    }
+
+    // Not declared locally: an app/router imported from another project file
+    const ref = this.moduleGraph.resolveReference(filePath, identifier);
+    if (ref && ref.filePath !== filePath) {
+      return this.classifyTopLevel(ref.filePath, ref.name, depth + 1);
+    }
+    return undefined;
+  }
+
+  private classifyTopLevel(
+    filePath: string,
+    name: string,
+    depth: number
+  ): FrameworkInstance | null | undefined {
+    const sourceFile = this.sourceFiles.get(filePath);
+    if (!sourceFile || depth > MAX_RESOLUTION_DEPTH) return undefined;
+
+    // Prefer the top-level declaration; fall back to one nested in a function
+    const declarations = findNodes(
+      sourceFile,
+      (node): node is ts.VariableDeclaration =>
+        ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.name.text === name
+    );
+    const decl =
+      declarations.find((d) => ts.isSourceFile(d.parent.parent.parent)) ?? declarations[0];
+    return decl ? this.classifyVariable(filePath, decl, depth) : undefined;
+  }
+
+  private isDeclaredInFile(filePath: string, name: string): boolean {
+    const sourceFile = this.sourceFiles.get(filePath);
+    if (!sourceFile) return false;
+    return findNodes(
+      sourceFile,
+      (node): node is ts.Declaration =>
+        (ts.isVariableDeclaration(node) ||
+          ts.isClassDeclaration(node) ||
+          ts.isFunctionDeclaration(node)) &&
+        !!node.name &&
+        ts.isIdentifier(node.name) &&
+        node.name.text === name
+    ).length > 0;
+  }
+
+  private classifyVariable(
+    filePath: string,
+    decl: ts.VariableDeclaration,
+    depth: number
+  ): FrameworkInstance | null | undefined {
+    if (decl.type) {
+      const typed = this.classifyType(filePath, decl.type);
+      if (typed !== undefined) return typed;
+    }
+    return decl.initializer ? this.classifyExpression(filePath, decl.initializer, depth) : undefined;
+  }
+
+  private classifyParameter(
+    filePath: string,
+    param: ts.ParameterDeclaration
+  ): FrameworkInstance | null | undefined {
+    if (param.type) {
+      return this.classifyType(filePath, param.type);
+    }
+
+    // The first parameter of a function given to fastify.register() or fastify-plugin
+    const fn = param.parent;
+    if (fn.parameters[0] === param && this.isFastifyPluginFunction(filePath, fn)) {
+      return FASTIFY_INSTANCE;
+    }
+    return undefined;
+  }
+
+  private classifyType(filePath: string, type: ts.TypeNode): FrameworkInstance | null | undefined {
+    if (!ts.isTypeReferenceNode(type)) {
+      return type.kind === ts.SyntaxKind.AnyKeyword || type.kind === ts.SyntaxKind.UnknownKeyword
+        ? undefined
+        : null;
+    }
+
+    const typeName = type.typeName;
+    if (ts.isIdentifier(typeName)) {
+      return this.lookupPackageExport(filePath, typeName.text) ?? null;
+    }
+    // express.Router, Express.Application
+    if (ts.isIdentifier(typeName.left)) {
+      return this.lookupPackageMember(filePath, typeName.left.text, typeName.right.text) ?? null;
+    }
+    return null;
+  }
+
+  /** Resolves the callee of `express()`, `express.Router()`, `new Router()`, `require('koa')()` */
+  private resolveFactory(
+    filePath: string,
+    expression: ts.CallExpression | ts.NewExpression
+  ): FrameworkInstance | null | undefined {
+    const callee = this.unwrap(expression.expression);
+    const isNew = ts.isNewExpression(expression);
+
+    if (ts.isIdentifier(callee)) {
+      if (this.moduleGraph.getImportBinding(filePath, callee.text)) {
+        return this.lookupPackageExport(filePath, callee.text) ?? (isNew ? null : undefined);
+      }
+      if (this.isDeclaredInFile(filePath, callee.text)) {
+        return isNew ? null : undefined;
+      }
+      // Not imported (globals in snippets, or an import we can't see): go by the usual names
+      const factory = UNBOUND_FACTORIES[isNew ? 'new' : 'call'][callee.text];
+      if (factory) return factory;
+      return NON_FRAMEWORK_GLOBALS.has(callee.text) ? null : undefined;
+    }
+
+    const required = this.getRequireSpecifier(callee);
+    if (required) {
+      return FRAMEWORK_PACKAGES[required]?.default ?? null;
+    }
+
+    if (ts.isPropertyAccessExpression(callee)) {
+      const member = callee.name.text;
+      const target = this.unwrap(callee.expression);
+      const requiredTarget = this.getRequireSpecifier(target);
+      if (requiredTarget) {
+        return FRAMEWORK_PACKAGES[requiredTarget]?.[member] ?? null;
+      }
+      if (ts.isIdentifier(target)) {
+        const binding = this.moduleGraph.getImportBinding(filePath, target.text);
+        if (binding) {
+          return this.lookupPackageMember(filePath, target.text, member) ?? (isNew ? null : undefined);
+        }
+        if (target.text === 'express' && member === 'Router') {
+          return EXPRESS_ROUTER;
+        }
+        if (NON_FRAMEWORK_GLOBALS.has(target.text) && !this.isDeclaredInFile(filePath, target.text)) {
+          return null;
+        }
+      }
+    }
+
+    return isNew ? null : undefined;
+  }
+
+  private lookupPackageExport(filePath: string, localName: string): FrameworkInstance | undefined {
+    const binding = this.moduleGraph.getImportBinding(filePath, localName);
+    return binding ? FRAMEWORK_PACKAGES[binding.specifier]?.[binding.importedName] : undefined;
+  }
+
+  /** `express.Router` where `express` is the default or namespace import of the package */
+  private lookupPackageMember(
+    filePath: string,
+    localName: string,
+    member: string
+  ): FrameworkInstance | undefined {
+    const binding = this.moduleGraph.getImportBinding(filePath, localName);
+    if (!binding || (binding.importedName !== 'default' && binding.importedName !== '*')) {
+      return undefined;
+    }
+    return FRAMEWORK_PACKAGES[binding.specifier]?.[member];
+  }
+
+  private isFastifyPluginFunction(filePath: string, fn: ts.SignatureDeclaration): boolean {
+    const parent = fn.parent;
+    if (!parent || !ts.isCallExpression(parent) || !parent.arguments.includes(fn as ts.Expression)) {
+      return false;
+    }
+
+    const callee = parent.expression;
+    if (ts.isPropertyAccessExpression(callee) && callee.name.text === 'register') {
+      return true;
+    }
+    if (ts.isIdentifier(callee)) {
+      const binding = this.moduleGraph.getImportBinding(filePath, callee.text);
+      return !!binding && FASTIFY_PLUGIN_WRAPPERS.has(binding.specifier);
+    }
+    return false;
+  }
+
+  /** Lexical lookup of a parameter or variable declaration visible at `identifier` */
+  private findLocalDeclaration(
+    identifier: ts.Identifier
+  ): ts.VariableDeclaration | ts.ParameterDeclaration | undefined {
+    const name = identifier.text;
+    let node: ts.Node | undefined = identifier.parent;
+
+    while (node) {
+      if (ts.isFunctionLike(node)) {
+        const param = node.parameters.find((p) => ts.isIdentifier(p.name) && p.name.text === name);
+        if (param) return param;
+      }
+
+      if (ts.isBlock(node) || ts.isSourceFile(node) || ts.isModuleBlock(node)) {
+        for (const statement of node.statements) {
+          if (!ts.isVariableStatement(statement)) continue;
+          const decl = statement.declarationList.declarations.find(
+            (d) => ts.isIdentifier(d.name) && d.name.text === name
+          );
+          // Variables bound by require() are imports, not local instances
+          if (decl && !this.isRequireBinding(decl)) {
+            return decl;
+          }
+        }
+      }
+
+      node = node.parent;
+    }
+
+    return undefined;
+  }
+
+  private getFileFrameworks(filePath: string): Set<EndpointType> {
+    const frameworks = new Set<EndpointType>();
+    for (const specifier of this.moduleGraph.getImportedSpecifiers(filePath)) {
+      const exports = FRAMEWORK_PACKAGES[specifier];
+      if (exports) frameworks.add(exports.default.framework);
+    }
+    return frameworks;
+  }
+
+  private isRequireBinding(decl: ts.VariableDeclaration): boolean {
+    const init = decl.initializer && this.unwrap(decl.initializer);
+    if (!init) return false;
+    const target = ts.isPropertyAccessExpression(init) ? init.expression : init;
+    return this.getRequireSpecifier(target) !== null;
+  }
+
+  private getRequireSpecifier(node: ts.Expression): string | null {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'require' &&
+      node.arguments.length === 1 &&
+      ts.isStringLiteral(node.arguments[0])
+    ) {
+      return node.arguments[0].text;
+    }
+    return null;
+  }
+
+  private unwrap(node: ts.Expression): ts.Expression {
+    let current = node;
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAwaitExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+}
@@ -9,6 +9,11 @@ import {
   createDefaultAuthorizationInfo,
   determineClassification,
 } from '../models/authorization-info.js';
+import { FrameworkBindings } from './framework-bindings.js';
+import { ProjectContext, createProjectContext, getFileContext } from './project-context.js';
+import { DiagnosticCollector } from './diagnostic-collector.js';
+import { LoopBindings, UNRESOLVED_SEGMENT } from '../analysis/constant-resolver.js';
+import { DiscoveryDiagnostic } from '../models/discovery-diagnostic.js';
 
 const KOA_HTTP_METHODS = new Set([
   'get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'all'
@@ -28,17 +33,34 @@ const AUTH_MIDDLEWARE_PATTERNS = [
 
 export class KoaDiscoverer implements EndpointDiscoverer {
   readonly name = 'Koa';
+  private context?: ProjectContext;
+  private diagnostics = new DiagnosticCollector(EndpointType.Koa);
+
+  /** Resolves app/router variables and path constants across the project, including imported ones */
+  async prepare(files: LoadedSourceFile[]): Promise<void> {
+    this.context = createProjectContext(files);
+    this.diagnostics.clear();
+  }
+
+  getDiagnostics(): DiscoveryDiagnostic[] {
+    return this.diagnostics.getAll();
+  }
 
   async discover(file: LoadedSourceFile): Promise<Endpoint[]> {
     const endpoints: Endpoint[] = [];
     const { sourceFile, filePath } = file;
+    const context = getFileContext(this.context, file);
 
     const callExpressions = findNodes(sourceFile, ts.isCallExpression);
 
     for (const callExpr of callExpressions) {
-      const endpoint = this.processRouteCall(callExpr, sourceFile, filePath);
-      if (endpoint) {
-        endpoints.push(endpoint);
+      // routes.forEach((r) => router[r.method](r.path, ...r.middleware, r.handler))
+      // registers one route per element of a static array
+      for (const loopBindings of context.constants.getLoopBindings(filePath, callExpr)) {
+        const endpoint = this.processRouteCall(callExpr, sourceFile, filePath, context, loopBindings);
+        if (endpoint) {
+          endpoints.push(endpoint);
+        }
       }
     }
 
@@ -48,21 +70,33 @@ export class KoaDiscoverer implements EndpointDiscoverer {
   private processRouteCall(
     callExpr: ts.CallExpression,
     sourceFile: ts.SourceFile,
-    filePath: string
+    filePath: string,
+    context: ProjectContext,
+    loopBindings: LoopBindings
   ): Endpoint | null {
-    if (!ts.isPropertyAccessExpression(callExpr.expression)) {
+    const propAccess = callExpr.expression;
+    if (!ts.isPropertyAccessExpression(propAccess) && !ts.isElementAccessExpression(propAccess)) {
       return null;
     }
 
-    const propAccess = callExpr.expression;
-    const methodName = propAccess.name.text.toLowerCase();
+    const methodName = this.getMethodName(propAccess, filePath, context, loopBindings);
+    if (methodName === null) {
+      // router[method]('/path', handler) with a method we can't resolve
+      if (
+        callExpr.arguments.length > 1 &&
+        this.isKoaInstance(propAccess.expression, filePath, context.bindings)
+      ) {
+        this.diagnostics.report('computed-method', callExpr, sourceFile, filePath);
+      }
+      return null;
+    }
 
     if (!KOA_HTTP_METHODS.has(methodName)) {
       return null;
     }
 
     const callerName = this.getCallerName(propAccess.expression);
-    if (!callerName || !this.isKoaRouterIdentifier(callerName)) {
+    if (!callerName || !this.isKoaInstance(propAccess.expression, filePath, context.bindings)) {
       return null;
     }
 
@@ -72,20 +106,29 @@ export class KoaDiscoverer implements EndpointDiscoverer {
     }
 
     // First arg is route path
-    const routePath = this.extractStringValue(args[0]);
+    const routePath = context.constants.resolveString(filePath, args[0], loopBindings);
     if (!routePath) {
+      if (routePath === null && args.length > 1) {
+        this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath);
+      }
       return null;
     }
+    if (routePath.includes(UNRESOLVED_SEGMENT)) {
+      this.diagnostics.report('unresolved-path', callExpr, sourceFile, filePath, false);
+    }
+    const handlers = this.expandHandlers(args.slice(1), filePath, context, loopBindings);
+    if (handlers.some(ts.isSpreadElement)) {
+      this.diagnostics.report('dynamic-handlers', callExpr, sourceFile, filePath, false);
+    }
 
     // Extract middleware chain and handler
     const middlewares: string[] = [];
     let handlerName = 'anonymous';
 
-    for (let i = 1; i < args.length; i++) {
-      const arg = args[i];
-      const name = this.extractMiddlewareName(arg, sourceFile);
+    for (let i = 0; i < handlers.length; i++) {
+      const name = this.extractMiddlewareName(handlers[i]);
 
-      if (i === args.length - 1) {
+      if (i === handlers.length - 1) {
         // Last argument is the handler
         handlerName = name ?? 'anonymous';
       } else if (name) {
@@ -131,44 +174,77 @@ export class KoaDiscoverer implements EndpointDiscoverer {
     return AUTH_MIDDLEWARE_PATTERNS.some((pattern) => pattern.test(name));
   }
 
-  private getCallerName(expression: ts.Expression): string | null {
-    if (ts.isIdentifier(expression)) {
-      return expression.text;
-    }
-    return null;
+  /**
+   * Replaces handlers that come from the loop's route descriptor (`r.handler`,
+   * `...r.middleware`) with the expressions in the array. Spreads that can't
+   * be resolved are kept as they are.
+   */
+  private expandHandlers(
+    handlers: ts.Expression[],
+    filePath: string,
+    context: ProjectContext,
+    loopBindings: LoopBindings
+  ): ts.Expression[] {
+    return handlers.flatMap((handler) => {
+      if (ts.isSpreadElement(handler)) {
+        const elements = context.constants.resolveElements(filePath, handler.expression, loopBindings);
+        return elements ? elements.map((e) => e.node as ts.Expression) : [handler];
+      }
+      const value = context.constants.resolveLoopExpression(filePath, handler, loopBindings);
+      return value && !ts.isEnumDeclaration(value.node) ? [value.node] : [handler];
+    });
   }
 
-  private isKoaRouterIdentifier(name: string): boolean {
-    if (KOA_ROUTER_IDENTIFIERS.has(name)) {
-      return true;
+  /** Lower-cased method of `router.get` / `router['get']`; null when it is computed at runtime */
+  private getMethodName(
+    callee: ts.PropertyAccessExpression | ts.ElementAccessExpression,
+    filePath: string,
+    context: ProjectContext,
+    loopBindings: LoopBindings
+  ): string | null {
+    if (ts.isPropertyAccessExpression(callee)) {
+      return callee.name.text.toLowerCase();
     }
-    const lower = name.toLowerCase();
-    return lower.includes('router') || lower.includes('koa');
+    return context.constants
+      .resolveString(filePath, callee.argumentExpression, loopBindings)
+      ?.toLowerCase() ?? null;
   }
 
-  private extractStringValue(node: ts.Expression): string | null {
-    if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) {
-      return node.text;
+  private getCallerName(expression: ts.Expression): string | null {
+    if (ts.isIdentifier(expression)) {
+      return expression.text;
     }
     return null;
   }
 
-  private extractMiddlewareName(
-    node: ts.Expression,
-    sourceFile: ts.SourceFile
-  ): string | null {
+  /**
+   * Whether the receiver is a Koa router, going by how it was created or
+   * imported and only falling back to its name when that's unknown.
+   */
+  private isKoaInstance(
+    receiver: ts.Expression,
+    filePath: string,
+    bindings: FrameworkBindings
+  ): boolean {
+    return bindings.isInstanceOf(EndpointType.Koa, filePath, receiver, (name) =>
+      KOA_ROUTER_IDENTIFIERS.has(name) || /Router$/.test(name) || name.toLowerCase().includes('koa')
+    );
+  }
+
+  /** Nodes may come from a route array in another file, so text is read from their own source */
+  private extractMiddlewareName(node: ts.Expression): string | null {
     if (ts.isIdentifier(node)) {
       return node.text;
     }
     if (ts.isPropertyAccessExpression(node)) {
-      return node.getText(sourceFile);
+      return node.getText();
     }
     if (ts.isCallExpression(node)) {
       if (ts.isIdentifier(node.expression)) {
         return node.expression.text;
       }
       if (ts.isPropertyAccessExpression(node.expression)) {
-        return node.expression.getText(sourceFile);
+        return node.expression.getText();
       }
     }
     if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
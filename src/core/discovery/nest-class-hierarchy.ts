@@ -0,0 +1,120 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile } from '../analysis/source-file-loader.js';
+import { ModuleGraph } from '../analysis/module-graph.js';
+
+/** A class declaration or class expression and the file it is written in */
+export interface ClassRef {
+  filePath: string;
+  node: ts.ClassLikeDeclaration;
+}
+
+const MAX_INHERITANCE_DEPTH = 10;
+
+/**
+ * Follows `extends` clauses of controllers to the classes they inherit routes
+ * and guards from, across files: plain base classes (`extends BaseCrudController<User>`)
+ * and mixins, functions returning a class (`extends CrudController(User)`).
+ */
+export class NestClassHierarchy {
+  private moduleGraph: ModuleGraph;
+  private sourceFiles: Map<string, ts.SourceFile>;
+
+  constructor(files: LoadedSourceFile[], moduleGraph: ModuleGraph) {
+    this.moduleGraph = moduleGraph;
+    this.sourceFiles = new Map(files.map((f) => [f.filePath, f.sourceFile]));
+  }
+
+  /** Base classes of `classNode`, nearest first; stops at classes outside the project */
+  getBaseClasses(classNode: ts.ClassLikeDeclaration, filePath: string): ClassRef[] {
+    const bases: ClassRef[] = [];
+    let current: ClassRef | null = { filePath, node: classNode };
+
+    while (current && bases.length < MAX_INHERITANCE_DEPTH) {
+      current = this.getBaseClass(current);
+      if (current) bases.push(current);
+    }
+    return bases;
+  }
+
+  private getBaseClass(ref: ClassRef): ClassRef | null {
+    const extendsClause = ref.node.heritageClauses?.find(
+      (clause) => clause.token === ts.SyntaxKind.ExtendsKeyword
+    );
+    const base = extendsClause?.types[0]?.expression;
+    if (!base) return null;
+
+    // extends CrudController(User): the class the mixin function returns
+    if (ts.isCallExpression(base)) {
+      const mixin = this.findDeclaration(ref.filePath, base.expression);
+      return mixin ? this.getReturnedClass(mixin.filePath, mixin.node) : null;
+    }
+
+    const declaration = this.findDeclaration(ref.filePath, base);
+    if (!declaration) return null;
+    return ts.isClassDeclaration(declaration.node)
+      ? { filePath: declaration.filePath, node: declaration.node }
+      : null;
+  }
+
+  /** Top-level class, function or `const` declaration an expression refers to */
+  private findDeclaration(
+    filePath: string,
+    expression: ts.Expression
+  ): { filePath: string; node: ts.Node } | null {
+    const ref = this.moduleGraph.resolveReference(filePath, expression);
+    const sourceFile = ref && this.sourceFiles.get(ref.filePath);
+    if (!ref || !sourceFile) return null;
+
+    for (const statement of sourceFile.statements) {
+      if (
+        (ts.isClassDeclaration(statement) || ts.isFunctionDeclaration(statement)) &&
+        statement.name?.text === ref.name
+      ) {
+        return { filePath: ref.filePath, node: statement };
+      }
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          if (ts.isIdentifier(declaration.name) && declaration.name.text === ref.name) {
+            return declaration.initializer
+              ? { filePath: ref.filePath, node: declaration.initializer }
+              : null;
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The class a mixin function returns: `return class extends Base {...}`,
+   * `return CrudHost` for a class declared in its body, or `return mixin(CrudHost)`.
+   */
+  private getReturnedClass(filePath: string, node: ts.Node): ClassRef | null {
+    if (!ts.isFunctionDeclaration(node) && !ts.isFunctionExpression(node) && !ts.isArrowFunction(node)) {
+      return null;
+    }
+    const body = node.body;
+    if (!body) return null;
+
+    let returned = ts.isBlock(body)
+      ? body.statements.find(ts.isReturnStatement)?.expression
+      : body;
+    if (returned && ts.isCallExpression(returned) && returned.arguments.length > 0) {
+      returned = returned.arguments[0];
+    }
+    if (!returned) return null;
+
+    if (ts.isClassExpression(returned)) {
+      return { filePath, node: returned };
+    }
+    if (ts.isIdentifier(returned) && ts.isBlock(body)) {
+      const name = returned.text;
+      const local = body.statements.find(
+        (statement): statement is ts.ClassDeclaration =>
+          ts.isClassDeclaration(statement) && statement.name?.text === name
+      );
+      return local ? { filePath, node: local } : null;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,124 @@
+import * as ts from 'typescript';
+import {
+  LoadedSourceFile,
+  findNodes,
+  getDecorators,
+  getDecoratorName,
+  getDecoratorArguments,
+} from '../analysis/source-file-loader.js';
+import { SymbolRef } from '../analysis/module-graph.js';
+import { UNRESOLVED_SEGMENT, ValueRef } from '../analysis/constant-resolver.js';
+import { ProjectContext } from './project-context.js';
+
+/**
+ * Path prefixes that `RouterModule.register([...])` gives NestJS modules, and
+ * the module that declares each controller, so a controller can be placed
+ * under its module's path:
+ *
+ * ```ts
+ * RouterModule.register([{ path: 'admin', module: AdminModule, children: [
+ *   { path: 'reports', module: ReportsModule },
+ * ] }]);
+ * @Module({ controllers: [ReportsController] }) class ReportsModule {}
+ * // @Controller('daily') in ReportsController → /admin/reports/daily
+ * ```
+ */
+export class NestRouterModules {
+  private context: ProjectContext;
+  /** Module key -> path from RouterModule */
+  private modulePaths = new Map<string, string>();
+  /** Controller key -> key of the module listing it in `controllers` */
+  private controllerModules = new Map<string, string>();
+
+  constructor(files: LoadedSourceFile[], context: ProjectContext) {
+    this.context = context;
+    for (const file of files) {
+      this.collectModules(file);
+      this.collectRouterModules(file);
+    }
+  }
+
+  /** The RouterModule path of the module declaring the controller, '' when there is none */
+  getControllerPrefix(filePath: string, className: string): string {
+    const moduleKey = this.controllerModules.get(this.key({ filePath, name: className }));
+    return (moduleKey && this.modulePaths.get(moduleKey)) ?? '';
+  }
+
+  /** @Module({ controllers: [UsersController, ...sharedControllers] }) */
+  private collectModules(file: LoadedSourceFile): void {
+    for (const statement of file.sourceFile.statements) {
+      if (!ts.isClassDeclaration(statement) || !statement.name) continue;
+      const decorator = getDecorators(statement).find((d) => getDecoratorName(d) === 'Module');
+      const metadata = decorator && getDecoratorArguments(decorator)[0];
+      const controllers = metadata && this.getProperty(metadata, 'controllers');
+      if (!controllers) continue;
+
+      const moduleKey = this.key({ filePath: file.filePath, name: statement.name.text });
+      for (const controller of this.context.constants.resolveElements(file.filePath, controllers) ?? []) {
+        const ref = this.resolveClass(controller);
+        if (ref) {
+          this.controllerModules.set(this.key(ref), moduleKey);
+        }
+      }
+    }
+  }
+
+  private collectRouterModules(file: LoadedSourceFile): void {
+    for (const call of findNodes(file.sourceFile, ts.isCallExpression)) {
+      const callee = call.expression;
+      if (
+        ts.isPropertyAccessExpression(callee) &&
+        callee.name.text === 'register' &&
+        ts.isIdentifier(callee.expression) &&
+        callee.expression.text === 'RouterModule' &&
+        call.arguments.length > 0
+      ) {
+        this.registerRoutes(file.filePath, call.arguments[0], '');
+      }
+    }
+  }
+
+  /** Routes of RouterModule.register() or a route's `children`, which may be modules themselves */
+  private registerRoutes(filePath: string, routes: ts.Expression, parentPath: string): void {
+    for (const route of this.context.constants.resolveElements(filePath, routes) ?? []) {
+      const node = route.node;
+      if (!ts.isObjectLiteralExpression(node)) {
+        // children: [UsersModule] inherits the parent path
+        const ref = this.resolveClass(route);
+        if (ref) this.modulePaths.set(this.key(ref), parentPath);
+        continue;
+      }
+
+      const pathNode = this.getProperty(node, 'path');
+      const path = pathNode
+        ? `${parentPath}/${this.context.constants.resolveString(route.filePath, pathNode) ?? UNRESOLVED_SEGMENT}`
+        : parentPath;
+
+      const moduleNode = this.getProperty(node, 'module');
+      const ref = moduleNode && this.resolveClass({ filePath: route.filePath, node: moduleNode });
+      if (ref) this.modulePaths.set(this.key(ref), path);
+
+      const children = this.getProperty(node, 'children');
+      if (children) this.registerRoutes(route.filePath, children, path);
+    }
+  }
+
+  private resolveClass(value: ValueRef): SymbolRef | null {
+    if (ts.isEnumDeclaration(value.node)) return null;
+    return this.context.moduleGraph.resolveReference(value.filePath, value.node);
+  }
+
+  private getProperty(node: ts.Expression, name: string): ts.Expression | undefined {
+    if (!ts.isObjectLiteralExpression(node)) return undefined;
+    for (const prop of node.properties) {
+      if (ts.isPropertyAssignment(prop) && ts.isIdentifier(prop.name) && prop.name.text === name) {
+        return prop.initializer;
+      }
+    }
+    return undefined;
+  }
+
+  private key(ref: SymbolRef): string {
+    return `${ref.filePath}#${ref.name}`;
+  }
+}
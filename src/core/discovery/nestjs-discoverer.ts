@@ -6,12 +6,32 @@ import {
   getDecorators,
   getDecoratorName,
   getDecoratorArguments,
-  getStringLiteralValue,
 } from '../analysis/source-file-loader.js';
 import { Endpoint, createEndpoint } from '../models/endpoint.js';
 import { EndpointType } from '../models/endpoint-type.js';
 import { HttpMethod } from '../models/http-method.js';
+import { GraphQLOperation } from '../models/graphql-operation.js';
+import { MessageKind, Transport } from '../models/transport.js';
+import { AuthorizationInfo } from '../models/authorization-info.js';
 import { NestJSAuthExtractor } from '../authorization/nestjs-auth-extractor.js';
+import {
+  GlobalAuthAnalyzer,
+  GlobalAuthConfig,
+  GlobalPrefixExclusion,
+  resolveVersions,
+} from '../authorization/global-auth-analyzer.js';
+import { ConstantResolver, UNRESOLVED_SEGMENT } from '../analysis/constant-resolver.js';
+import { ProjectContext, createProjectContext, getFileContext } from './project-context.js';
+import { NestRouterModules } from './nest-router-modules.js';
+import { ClassRef, NestClassHierarchy } from './nest-class-hierarchy.js';
+import {
+  AppliedDecorator,
+  NestJSDecoratorResolver,
+} from '../authorization/nestjs-decorator-resolver.js';
+import { NestJSGuardClassifier } from '../authorization/nestjs-guard-classifier.js';
+import { GuardKind } from '../models/guard-kind.js';
+import { DiagnosticCollector } from './diagnostic-collector.js';
+import { DiscoveryDiagnostic } from '../models/discovery-diagnostic.js';
 
 const NESTJS_HTTP_DECORATORS = new Map<string, HttpMethod>([
   ['Get', HttpMethod.GET],
@@ -24,22 +44,68 @@ const NESTJS_HTTP_DECORATORS = new Map<string, HttpMethod>([
   ['All', HttpMethod.ALL],
 ]);
 
+const NESTJS_MICROSERVICE_DECORATORS = new Map<string, MessageKind>([
+  ['MessagePattern', MessageKind.MESSAGE],
+  ['EventPattern', MessageKind.EVENT],
+]);
+
+const NESTJS_GATEWAY_DECORATORS = new Map<string, MessageKind>([
+  ['SubscribeMessage', MessageKind.MESSAGE],
+]);
+
+const NESTJS_GRAPHQL_DECORATORS = new Map<string, GraphQLOperation>([
+  ['Query', GraphQLOperation.QUERY],
+  ['Mutation', GraphQLOperation.MUTATION],
+  ['Subscription', GraphQLOperation.SUBSCRIPTION],
+  ['ResolveField', GraphQLOperation.FIELD],
+]);
+
+export interface NestJSDiscovererOptions {
+  /** Guard class name -> kind, taking precedence over what its implementation suggests */
+  guards?: Record<string, GuardKind>;
+}
+
 export class NestJSDiscoverer implements EndpointDiscoverer {
   readonly name = 'NestJS';
   private authExtractor: NestJSAuthExtractor;
+  private globalAuthAnalyzer: GlobalAuthAnalyzer;
+  private guardOverrides: Record<string, GuardKind>;
+  private context?: ProjectContext;
+  private scope?: ProjectScope;
+  private diagnostics = new DiagnosticCollector(EndpointType.NestJS);
 
-  constructor() {
+  constructor(options: NestJSDiscovererOptions = {}) {
     this.authExtractor = new NestJSAuthExtractor();
+    this.globalAuthAnalyzer = new GlobalAuthAnalyzer();
+    this.guardOverrides = options.guards ?? {};
+  }
+
+  /**
+   * Resolves path constants such as `@Controller(PATHS.orders)`, global guards,
+   * prefix and versioning set up in `main.ts`, `APP_GUARD` providers,
+   * RouterModule paths, custom decorators and guard classes across the project
+   */
+  async prepare(files: LoadedSourceFile[]): Promise<void> {
+    this.context = createProjectContext(files);
+    this.scope = this.createScope(files, this.context);
+    this.diagnostics.clear();
+  }
+
+  getDiagnostics(): DiscoveryDiagnostic[] {
+    return this.diagnostics.getAll();
   }
 
   async discover(file: LoadedSourceFile): Promise<Endpoint[]> {
     const endpoints: Endpoint[] = [];
     const { sourceFile, filePath } = file;
+    const context = getFileContext(this.context, file);
+    const scope =
+      context === this.context && this.scope ? this.scope : this.createScope([file], context);
 
     // Find all classes with @Controller decorator
     ts.forEachChild(sourceFile, (node) => {
       if (ts.isClassDeclaration(node)) {
-        const classEndpoints = this.processClass(node, sourceFile, filePath);
+        const classEndpoints = this.processClass(node, sourceFile, filePath, scope);
         endpoints.push(...classEndpoints);
       }
     });
@@ -47,58 +113,140 @@ export class NestJSDiscoverer implements EndpointDiscoverer {
     return endpoints;
   }
 
+  private createScope(files: LoadedSourceFile[], context: ProjectContext): ProjectScope {
+    return {
+      constants: context.constants,
+      globalAuth: this.globalAuthAnalyzer.analyze(files, context.constants),
+      routerModules: new NestRouterModules(files, context),
+      classHierarchy: new NestClassHierarchy(files, context.moduleGraph),
+      decoratorResolver: new NestJSDecoratorResolver(files, context),
+      guardClassifier: new NestJSGuardClassifier(files, context.moduleGraph, this.guardOverrides),
+    };
+  }
+
   private processClass(
     classNode: ts.ClassDeclaration,
     sourceFile: ts.SourceFile,
-    filePath: string
+    filePath: string,
+    scope: ProjectScope
   ): Endpoint[] {
     const endpoints: Endpoint[] = [];
+    const { constants } = scope;
     const decorators = getDecorators(classNode);
 
-    // Find @Controller decorator
+    // Find @Controller decorator, or @Resolver / @WebSocketGateway
     const controllerDecorator = decorators.find(
       (d) => getDecoratorName(d) === 'Controller'
     );
+    const resolverDecorator = decorators.find((d) => getDecoratorName(d) === 'Resolver');
+    const gatewayDecorator = decorators.find((d) => getDecoratorName(d) === 'WebSocketGateway');
 
-    if (!controllerDecorator) {
+    if (!controllerDecorator && !resolverDecorator && !gatewayDecorator) {
       return endpoints;
     }
 
-    // Get controller path
-    const controllerPath = this.extractControllerPath(controllerDecorator);
-    const controllerName = classNode.name?.text ?? 'UnknownController';
+    // Routes and guards may come from base controllers and mixins
+    const classes: ClassRef[] = [
+      { filePath, node: classNode },
+      ...scope.classHierarchy.getBaseClasses(classNode, filePath),
+    ];
 
-    // Extract class-level auth decorators
-    const classAuth = this.extractClassAuthInfo(decorators);
+    const controllerName = classNode.name?.text ?? 'UnknownController';
+    const base = {
+      name: controllerName,
+      path: '',
+      versions: null,
+      decorators: this.getInheritedClassDecorators(classes, scope),
+    };
+    let controller: ControllerScope;
+    if (controllerDecorator) {
+      // Controller path, under the RouterModule path of its module
+      controller = {
+        ...base,
+        kind: 'controller',
+        path: this.buildRoute(
+          scope.routerModules.getControllerPrefix(filePath, controllerName),
+          this.extractControllerPath(controllerDecorator, filePath, constants)
+        ),
+        versions: this.extractControllerVersions(controllerDecorator, filePath, constants),
+      };
+    } else if (resolverDecorator) {
+      controller = {
+        ...base,
+        kind: 'resolver',
+        resolverType:
+          this.extractResolverType(resolverDecorator, filePath, constants) ?? controllerName,
+      };
+    } else {
+      controller = {
+        ...base,
+        kind: 'gateway',
+        namespace: this.extractGatewayNamespace(gatewayDecorator!, filePath, constants),
+      };
+    }
 
-    // Process all methods in the class
-    for (const member of classNode.members) {
-      if (ts.isMethodDeclaration(member)) {
-        const endpoint = this.processMethod(
-          member,
-          sourceFile,
-          filePath,
-          controllerPath,
-          controllerName,
-          classAuth
-        );
-        if (endpoint) {
-          endpoints.push(endpoint);
-        }
+    // Process all methods in the class; an override replaces the inherited method and its route
+    const seen = new Set<string>();
+    for (const cls of classes) {
+      const classSourceFile = cls.node.getSourceFile();
+      for (const member of cls.node.members) {
+        if (!ts.isMethodDeclaration(member)) continue;
+        const name = member.name.getText(classSourceFile);
+        if (seen.has(name)) continue;
+        seen.add(name);
+        endpoints.push(...this.processMember(member, classSourceFile, cls.filePath, controller, scope));
       }
     }
 
     return endpoints;
   }
 
+  /**
+   * Class decorators along the inheritance chain, as Nest's metadata lookup sees
+   * them: `@UseGuards` adds to the guards of base classes, other decorators
+   * (`@Roles`, `@Public`, ...) on a subclass replace the inherited ones.
+   */
+  private getInheritedClassDecorators(classes: ClassRef[], scope: ProjectScope): AppliedDecorator[] {
+    let decorators: AppliedDecorator[] = [];
+    for (const cls of [...classes].reverse()) {
+      const own = scope.decoratorResolver.resolve(cls.node, cls.filePath);
+      const ownNames = new Set(own.map((d) => d.name));
+      decorators = [
+        ...decorators.filter((d) => d.name === 'UseGuards' || !ownNames.has(d.name)),
+        ...own,
+      ];
+    }
+    return decorators;
+  }
+
+  /** HTTP routes and message handlers of controllers, operations of resolvers, events of gateways */
+  private processMember(
+    methodNode: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    controller: ControllerScope,
+    scope: ProjectScope
+  ): Endpoint[] {
+    if (controller.kind === 'resolver') {
+      return this.processOperation(methodNode, sourceFile, filePath, controller, scope);
+    }
+    const routes =
+      controller.kind === 'controller'
+        ? this.processMethod(methodNode, sourceFile, filePath, controller, scope)
+        : [];
+    return routes.length > 0
+      ? routes
+      : this.processMessageHandler(methodNode, sourceFile, filePath, controller, scope);
+  }
+
   private processMethod(
     methodNode: ts.MethodDeclaration,
     sourceFile: ts.SourceFile,
     filePath: string,
-    controllerPath: string,
-    controllerName: string,
-    classAuth: ClassAuthInfo
-  ): Endpoint | null {
+    controller: ControllerScope,
+    scope: ProjectScope
+  ): Endpoint[] {
+    const { constants, globalAuth } = scope;
     const decorators = getDecorators(methodNode);
     const methodName = methodNode.name
       ? ts.isIdentifier(methodNode.name)
@@ -114,63 +262,376 @@ export class NestJSDiscoverer implements EndpointDiscoverer {
       const decoratorName = getDecoratorName(decorator);
       if (decoratorName && NESTJS_HTTP_DECORATORS.has(decoratorName)) {
         httpMethod = NESTJS_HTTP_DECORATORS.get(decoratorName)!;
-        routePath = this.extractRoutePath(decorator);
+        routePath = this.extractRoutePath(decorator, filePath, constants);
         break;
       }
     }
 
     if (!httpMethod) {
-      return null;
+      return [];
     }
 
-    // Build full route
-    const fullRoute = this.buildRoute(controllerPath, routePath);
+    // Route as declared, before the global prefix and version segment
+    const route = this.buildRoute(controller.path, routePath);
 
     // Get location
     const location = getLineAndColumn(sourceFile, methodNode.getStart(sourceFile));
 
-    // Extract authorization info
-    const authorization = this.authExtractor.extract(decorators, {
-      classGuards: classAuth.guards,
-      classRoles: classAuth.roles,
-      isPublic: classAuth.isPublic,
-    });
+    const authorization = this.extractAuthorization(methodNode, filePath, controller, scope);
+
+    // A handler serving several URI versions is reachable under each of them
+    return this.getVersionSegments(decorators, controller, filePath, scope)
+      .map((versionSegment) => {
+        const fullRoute = this.applyGlobalPrefix(route, httpMethod, versionSegment, globalAuth);
+        if (fullRoute.includes(UNRESOLVED_SEGMENT)) {
+          this.diagnostics.report('unresolved-path', methodNode, sourceFile, filePath, false);
+        }
+
+        return createEndpoint({
+          route: fullRoute,
+          method: httpMethod,
+          handlerName: methodName,
+          controllerName: controller.name,
+          type: EndpointType.NestJS,
+          location: {
+            filePath,
+            line: location.line,
+            column: location.column,
+          },
+          authorization,
+        });
+      });
+  }
+
+  /**
+   * GraphQL operations of a resolver: `@Query()`, `@Mutation()`, `@Subscription()`
+   * reported by field name, `@ResolveField()` as `User.posts`. Global guards apply
+   * to them as to HTTP routes; prefix and versioning do not.
+   */
+  private processOperation(
+    methodNode: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    controller: ControllerScope,
+    scope: ProjectScope
+  ): Endpoint[] {
+    const methodName = methodNode.name.getText(sourceFile);
+    let operation: GraphQLOperation | null = null;
+    let fieldName = methodName;
 
-    return createEndpoint({
-      route: fullRoute,
-      method: httpMethod,
-      handlerName: methodName,
-      controllerName,
-      type: EndpointType.NestJS,
-      location: {
-        filePath,
-        line: location.line,
-        column: location.column,
-      },
-      authorization,
+    for (const decorator of getDecorators(methodNode)) {
+      const decoratorName = getDecoratorName(decorator);
+      if (decoratorName && NESTJS_GRAPHQL_DECORATORS.has(decoratorName)) {
+        operation = NESTJS_GRAPHQL_DECORATORS.get(decoratorName)!;
+        fieldName = this.extractFieldName(decorator, filePath, scope.constants) ?? methodName;
+        break;
+      }
+    }
+
+    if (!operation) {
+      return [];
+    }
+
+    const location = getLineAndColumn(sourceFile, methodNode.getStart(sourceFile));
+    return [
+      createEndpoint({
+        route: operation === GraphQLOperation.FIELD ? `${controller.resolverType}.${fieldName}` : fieldName,
+        method: operation,
+        handlerName: methodName,
+        controllerName: controller.name,
+        type: EndpointType.NestJS,
+        location: {
+          filePath,
+          line: location.line,
+          column: location.column,
+        },
+        authorization: this.extractAuthorization(methodNode, filePath, controller, scope),
+      }),
+    ];
+  }
+
+  /**
+   * `@MessagePattern()` / `@EventPattern()` handlers of a (hybrid) controller and
+   * `@SubscribeMessage()` handlers of a gateway, reported by pattern or event name
+   */
+  private processMessageHandler(
+    methodNode: ts.MethodDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    controller: ControllerScope,
+    scope: ProjectScope
+  ): Endpoint[] {
+    const handlerDecorators =
+      controller.kind === 'gateway' ? NESTJS_GATEWAY_DECORATORS : NESTJS_MICROSERVICE_DECORATORS;
+    const decorator = getDecorators(methodNode).find((d) =>
+      handlerDecorators.has(getDecoratorName(d) ?? '')
+    );
+    if (!decorator) {
+      return [];
+    }
+
+    const pattern = this.extractPattern(decorator, filePath, scope.constants);
+    if (pattern.includes(UNRESOLVED_SEGMENT)) {
+      this.diagnostics.report('unresolved-path', methodNode, sourceFile, filePath, false);
+    }
+
+    const transport = controller.kind === 'gateway' ? Transport.WebSocket : Transport.Microservice;
+    const location = getLineAndColumn(sourceFile, methodNode.getStart(sourceFile));
+    return [
+      createEndpoint({
+        route: controller.namespace ? `${controller.namespace}/${pattern}` : pattern,
+        method: handlerDecorators.get(getDecoratorName(decorator)!)!,
+        transport,
+        handlerName: methodNode.name.getText(sourceFile),
+        controllerName: controller.name,
+        type: EndpointType.NestJS,
+        location: {
+          filePath,
+          line: location.line,
+          column: location.column,
+        },
+        authorization: this.extractAuthorization(methodNode, filePath, controller, scope, transport),
+      }),
+    ];
+  }
+
+  private extractAuthorization(
+    methodNode: ts.MethodDeclaration,
+    filePath: string,
+    controller: ControllerScope,
+    scope: ProjectScope,
+    transport = Transport.HTTP
+  ): AuthorizationInfo {
+    // Custom decorators such as @Auth('admin') are expanded into what they apply
+    const authDecorators = scope.decoratorResolver.resolve(methodNode, filePath);
+    return this.authExtractor.extract(authDecorators, {
+      // app.useGlobalGuards() covers HTTP only; APP_GUARD providers cover every transport
+      globalGuards: (transport === Transport.HTTP
+        ? scope.globalAuth.globalGuardNames
+        : scope.globalAuth.appGuardNames
+      ).map((name) => ({ name, reference: scope.globalAuth.guardReferences.get(name) })),
+      classDecorators: controller.decorators,
+      constants: scope.constants,
+      guards: scope.guardClassifier,
     });
   }
 
-  private extractControllerPath(decorator: ts.Decorator): string {
+  /**
+   * `v1`-style segments for the handler under URI versioning: its
+   * `@Version()`, else the controller's version, else the default version.
+   * A single empty segment when versioning is off or the route is version-neutral.
+   */
+  private getVersionSegments(
+    decorators: ts.Decorator[],
+    controller: ControllerScope,
+    filePath: string,
+    scope: ProjectScope
+  ): string[] {
+    const versioning = scope.globalAuth.uriVersioning;
+    if (!versioning) {
+      return [''];
+    }
+
+    const versionDecorator = decorators.find((d) => getDecoratorName(d) === 'Version');
+    const versionArg = versionDecorator && getDecoratorArguments(versionDecorator)[0];
+    const versions = versionArg
+      ? resolveVersions(versionArg, filePath, scope.constants)
+      : (controller.versions ?? versioning.defaultVersions);
+
+    if (versions.length === 0) {
+      return [''];
+    }
+    return versions.map((version) => (version ? `${versioning.prefix}${version}` : ''));
+  }
+
+  /** Puts `setGlobalPrefix()` and the version in front of the route, unless the route is excluded */
+  private applyGlobalPrefix(
+    route: string,
+    method: HttpMethod,
+    versionSegment: string,
+    globalAuth: GlobalAuthConfig
+  ): string {
+    const prefix =
+      globalAuth.globalPrefix && !this.isExcludedFromPrefix(route, method, globalAuth.globalPrefixExclude)
+        ? globalAuth.globalPrefix
+        : '';
+    return this.buildRoute(`${prefix}/${versionSegment}`, route);
+  }
+
+  private isExcludedFromPrefix(
+    route: string,
+    method: HttpMethod,
+    exclusions: GlobalPrefixExclusion[]
+  ): boolean {
+    return exclusions.some(
+      (exclusion) =>
+        (!exclusion.method || exclusion.method === method) &&
+        this.toRoutePattern(exclusion.path).test(route)
+    );
+  }
+
+  /** 'users/:id' and 'docs/(.*)' / 'docs/*' / 'docs/{*splat}' as a RegExp over routes */
+  private toRoutePattern(path: string): RegExp {
+    const segments = this.buildRoute(path, '')
+      .split('/')
+      .map((segment) => {
+        if (segment === '*' || segment === '(.*)' || segment.startsWith('{*')) return '.*';
+        if (segment.startsWith(':')) return '[^/]+';
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      });
+    return new RegExp(`^${segments.join('/')}$`);
+  }
+
+  private extractControllerPath(
+    decorator: ts.Decorator,
+    filePath: string,
+    constants: ConstantResolver
+  ): string {
     const args = getDecoratorArguments(decorator);
     if (args.length === 0) {
       return '';
     }
 
+    // @Controller({ path: 'orders', ... })
     const firstArg = args[0];
-    const path = getStringLiteralValue(firstArg);
-    return path ?? '';
+    if (ts.isObjectLiteralExpression(firstArg)) {
+      const pathProp = firstArg.properties.find(
+        (p): p is ts.PropertyAssignment =>
+          ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === 'path'
+      );
+      return pathProp ? this.resolvePath(pathProp.initializer, filePath, constants) : '';
+    }
+
+    return this.resolvePath(firstArg, filePath, constants);
+  }
+
+  /** `@Controller({ path: 'users', version: ['1', '2'] })`; null when it declares no version */
+  private extractControllerVersions(
+    decorator: ts.Decorator,
+    filePath: string,
+    constants: ConstantResolver
+  ): string[] | null {
+    const firstArg = getDecoratorArguments(decorator)[0];
+    if (!firstArg || !ts.isObjectLiteralExpression(firstArg)) {
+      return null;
+    }
+
+    const versionProp = firstArg.properties.find(
+      (p): p is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === 'version'
+    );
+    return versionProp ? resolveVersions(versionProp.initializer, filePath, constants) : null;
   }
 
-  private extractRoutePath(decorator: ts.Decorator): string {
+  private extractRoutePath(
+    decorator: ts.Decorator,
+    filePath: string,
+    constants: ConstantResolver
+  ): string {
     const args = getDecoratorArguments(decorator);
     if (args.length === 0) {
       return '';
     }
 
-    const firstArg = args[0];
-    const path = getStringLiteralValue(firstArg);
-    return path ?? '';
+    return this.resolvePath(args[0], filePath, constants);
+  }
+
+  /** `@Resolver(() => User)`, `@Resolver(of => User)`, `@Resolver(User)` or `@Resolver('User')` */
+  private extractResolverType(
+    decorator: ts.Decorator,
+    filePath: string,
+    constants: ConstantResolver
+  ): string | null {
+    const firstArg = getDecoratorArguments(decorator)[0];
+    if (!firstArg) {
+      return null;
+    }
+    const type =
+      ts.isArrowFunction(firstArg) && !ts.isBlock(firstArg.body) ? firstArg.body : firstArg;
+    if (ts.isIdentifier(type)) {
+      return type.text;
+    }
+    return constants.resolveString(filePath, type);
+  }
+
+  /**
+   * The schema field an operation is exposed as: `@Query('users')`,
+   * `@Query(() => [User], { name: 'users' })`; null to use the method name
+   */
+  private extractFieldName(
+    decorator: ts.Decorator,
+    filePath: string,
+    constants: ConstantResolver
+  ): string | null {
+    for (const arg of getDecoratorArguments(decorator)) {
+      if (ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)) continue;
+      const nameNode = ts.isObjectLiteralExpression(arg)
+        ? arg.properties.find(
+            (p): p is ts.PropertyAssignment =>
+              ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === 'name'
+          )?.initializer
+        : arg;
+      const name = nameNode && constants.resolveString(filePath, nameNode);
+      if (name) return name;
+    }
+    return null;
+  }
+
+  /** `@WebSocketGateway(81, { namespace: 'chat' })` or `@WebSocketGateway({ namespace: '/chat' })` */
+  private extractGatewayNamespace(
+    decorator: ts.Decorator,
+    filePath: string,
+    constants: ConstantResolver
+  ): string | undefined {
+    const options = getDecoratorArguments(decorator).find(ts.isObjectLiteralExpression);
+    const namespaceProp = options?.properties.find(
+      (p): p is ts.PropertyAssignment =>
+        ts.isPropertyAssignment(p) && ts.isIdentifier(p.name) && p.name.text === 'namespace'
+    );
+    if (!namespaceProp) {
+      return undefined;
+    }
+    // A RegExp or function namespace matches many; keep it with a placeholder
+    const namespace =
+      constants.resolveString(filePath, namespaceProp.initializer) ?? UNRESOLVED_SEGMENT;
+    return namespace.replace(/^\/+/, '') || undefined;
+  }
+
+  /**
+   * A message pattern or event name: `'user.created'`, or `{ cmd: 'sum' }` as
+   * the JSON Nest matches it by (keys sorted). Unresolvable parts become placeholders.
+   */
+  private extractPattern(
+    decorator: ts.Decorator,
+    filePath: string,
+    constants: ConstantResolver
+  ): string {
+    const arg = getDecoratorArguments(decorator)[0];
+    if (!arg) {
+      return UNRESOLVED_SEGMENT;
+    }
+    if (!ts.isObjectLiteralExpression(arg)) {
+      return this.resolvePath(arg, filePath, constants);
+    }
+
+    const entries: [string, string][] = [];
+    for (const prop of arg.properties) {
+      if (!ts.isPropertyAssignment(prop)) {
+        return UNRESOLVED_SEGMENT;
+      }
+      const key = prop.name;
+      if (!ts.isIdentifier(key) && !ts.isStringLiteral(key)) {
+        return UNRESOLVED_SEGMENT;
+      }
+      entries.push([key.text, this.resolvePath(prop.initializer, filePath, constants)]);
+    }
+    entries.sort(([a], [b]) => a.localeCompare(b));
+    return JSON.stringify(Object.fromEntries(entries));
+  }
+
+  /** The decorator makes it an endpoint either way; keep it with a placeholder segment */
+  private resolvePath(node: ts.Expression, filePath: string, constants: ConstantResolver): string {
+    return constants.resolveString(filePath, node) ?? UNRESOLVED_SEGMENT;
   }
 
   private buildRoute(controllerPath: string, methodPath: string): string {
@@ -204,47 +665,29 @@ export class NestJSDiscoverer implements EndpointDiscoverer {
 
     return route;
   }
+}
 
-  private extractClassAuthInfo(decorators: ts.Decorator[]): ClassAuthInfo {
-    const info: ClassAuthInfo = {
-      guards: [],
-      roles: [],
-      isPublic: false,
-    };
-
-    for (const decorator of decorators) {
-      const name = getDecoratorName(decorator);
-
-      if (name === 'UseGuards') {
-        const args = getDecoratorArguments(decorator);
-        for (const arg of args) {
-          if (ts.isIdentifier(arg)) {
-            info.guards.push(arg.text);
-          }
-        }
-      }
-
-      if (name === 'Roles') {
-        const args = getDecoratorArguments(decorator);
-        for (const arg of args) {
-          const value = getStringLiteralValue(arg);
-          if (value) {
-            info.roles.push(value);
-          }
-        }
-      }
-
-      if (name === 'Public' || name === 'AllowAnonymous' || name === 'SkipAuth') {
-        info.isPublic = true;
-      }
-    }
-
-    return info;
-  }
+/** Project-wide lookups for one scan */
+interface ProjectScope {
+  constants: ConstantResolver;
+  globalAuth: GlobalAuthConfig;
+  routerModules: NestRouterModules;
+  classHierarchy: NestClassHierarchy;
+  decoratorResolver: NestJSDecoratorResolver;
+  guardClassifier: NestJSGuardClassifier;
 }
 
-interface ClassAuthInfo {
-  guards: string[];
-  roles: string[];
-  isPublic: boolean;
+interface ControllerScope {
+  kind: 'controller' | 'resolver' | 'gateway';
+  name: string;
+  /** RouterModule path of the declaring module joined with the @Controller path */
+  path: string;
+  /** From `@Controller({ version })`; null when the controller declares none */
+  versions: string[] | null;
+  /** Class decorators, custom ones expanded, for the auth extractor */
+  decorators: AppliedDecorator[];
+  /** Set for @Resolver() classes: the object type their @ResolveField() methods belong to */
+  resolverType?: string;
+  /** Set for namespaced gateways, `@WebSocketGateway({ namespace: 'chat' })` */
+  namespace?: string;
 }
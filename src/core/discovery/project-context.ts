@@ -0,0 +1,28 @@
+import { LoadedSourceFile } from '../analysis/source-file-loader.js';
+import { ModuleGraph } from '../analysis/module-graph.js';
+import { ConstantResolver } from '../analysis/constant-resolver.js';
+import { FrameworkBindings } from './framework-bindings.js';
+
+/** Cross-file lookups shared by the discoverers, built once per scan in `prepare()` */
+export interface ProjectContext {
+  moduleGraph: ModuleGraph;
+  bindings: FrameworkBindings;
+  constants: ConstantResolver;
+}
+
+export function createProjectContext(files: LoadedSourceFile[]): ProjectContext {
+  const moduleGraph = new ModuleGraph(files);
+  return {
+    moduleGraph,
+    bindings: new FrameworkBindings(files, moduleGraph),
+    constants: new ConstantResolver(files, moduleGraph),
+  };
+}
+
+/** The prepared context when it covers `file`, otherwise one for the file alone */
+export function getFileContext(
+  prepared: ProjectContext | undefined,
+  file: LoadedSourceFile
+): ProjectContext {
+  return prepared?.moduleGraph.hasFile(file.filePath) ? prepared : createProjectContext([file]);
+}
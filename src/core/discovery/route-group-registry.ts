@@ -5,10 +5,51 @@ export interface RouteGroup {
   filePath: string;
 }
 
+/**
+ * An app or router variable. `filePath` is empty when the variable is
+ * imported from a module that could not be resolved; such references are
+ * matched by variable name only.
+ */
+export interface RouterRef {
+  filePath: string;
+  variableName: string;
+}
+
+/** Prefix and inherited middlewares a router's routes run under through one mount chain */
+export interface MountContext {
+  prefix: string;
+  middlewares: string[];
+}
+
+interface RouterMount {
+  parent: RouterRef;
+  prefix: string;
+  router: RouterRef;
+  /** Source position of the mount call in the parent's file */
+  position?: number;
+}
+
+/** `owner.use(middleware)` without a path; applies to routes registered after it */
+interface RouterMiddleware {
+  owner: RouterRef;
+  middlewares: string[];
+  position: number;
+}
+
+interface PathMiddleware {
+  owner?: RouterRef;
+  prefix: string;
+  middlewares: string[];
+  filePath: string;
+}
+
+const MAX_MOUNT_DEPTH = 20;
+
 export class RouteGroupRegistry {
   private groups: Map<string, RouteGroup[]> = new Map();
-  private routerMounts: Map<string, { prefix: string; routerName: string }[]> = new Map();
-  private pathMiddlewares: { prefix: string; middlewares: string[]; filePath: string }[] = [];
+  private routerMounts: RouterMount[] = [];
+  private routerMiddlewares: RouterMiddleware[] = [];
+  private pathMiddlewares: PathMiddleware[] = [];
 
   registerGroup(
     filePath: string,
@@ -30,17 +71,40 @@ export class RouteGroupRegistry {
     this.groups.get(key)!.push(group);
   }
 
+  /**
+   * Records `parent.use(prefix, router)`. `router` is either the resolved
+   * declaration (possibly in another file) or a bare variable name.
+   */
   registerRouterMount(
     filePath: string,
     appVariableName: string,
     prefix: string,
-    routerName: string
+    router: RouterRef | string,
+    position?: number
   ): void {
-    const key = this.makeKey(filePath, appVariableName);
-    if (!this.routerMounts.has(key)) {
-      this.routerMounts.set(key, []);
-    }
-    this.routerMounts.get(key)!.push({ prefix, routerName });
+    this.routerMounts.push({
+      parent: { filePath, variableName: appVariableName },
+      prefix,
+      router: typeof router === 'string' ? { filePath: '', variableName: router } : router,
+      position,
+    });
+  }
+
+  /**
+   * Records `owner.use(middleware)` without a path at a source position.
+   * Like Express, it only affects routes and mounts registered after it.
+   */
+  registerRouterMiddleware(
+    filePath: string,
+    ownerVariableName: string,
+    middlewares: string[],
+    position: number
+  ): void {
+    this.routerMiddlewares.push({
+      owner: { filePath, variableName: ownerVariableName },
+      middlewares,
+      position,
+    });
   }
 
   getGroup(filePath: string, variableName: string): RouteGroup | undefined {
@@ -50,13 +114,26 @@ export class RouteGroupRegistry {
   }
 
   getRouterPrefix(filePath: string, routerName: string): string {
-    for (const [, mounts] of this.routerMounts) {
-      const mount = mounts.find((m) => m.routerName === routerName);
-      if (mount) {
-        return mount.prefix;
-      }
-    }
-    return '';
+    return this.getRouterPrefixes(filePath, routerName)[0] ?? '';
+  }
+
+  /**
+   * Every full prefix the router is reachable under, following mounts across
+   * files and through any number of nested routers. Empty when never mounted.
+   */
+  getRouterPrefixes(filePath: string, routerName: string): string[] {
+    if (!this.isMounted({ filePath, variableName: routerName })) return [];
+    return this.getMountContexts(filePath, routerName).map((c) => c.prefix);
+  }
+
+  /**
+   * One context per mount chain the router is reachable through (a single
+   * root context when it is never mounted). Middlewares are those of path-less
+   * `use()` calls on the router and its ancestors registered before `position`
+   * and before each mount, in execution order.
+   */
+  getMountContexts(filePath: string, routerName: string, position?: number): MountContext[] {
+    return this.collectContexts({ filePath, variableName: routerName }, position, new Set());
   }
 
   getAllMiddlewares(filePath: string, variableName: string): string[] {
@@ -64,15 +141,36 @@ export class RouteGroupRegistry {
     return group?.middlewares ?? [];
   }
 
-  registerPathMiddleware(filePath: string, prefix: string, middlewares: string[]): void {
-    this.pathMiddlewares.push({ prefix, middlewares, filePath });
+  /**
+   * Records `owner.use(prefix, ...middlewares)`. The prefix is relative to
+   * wherever `owner` itself is mounted.
+   */
+  registerPathMiddleware(
+    filePath: string,
+    prefix: string,
+    middlewares: string[],
+    ownerVariableName?: string
+  ): void {
+    this.pathMiddlewares.push({
+      owner: ownerVariableName ? { filePath, variableName: ownerVariableName } : undefined,
+      prefix,
+      middlewares,
+      filePath,
+    });
   }
 
   getPathMiddlewares(route: string): string[] {
     const result: string[] = [];
     for (const pm of this.pathMiddlewares) {
+      const ownerPrefixes = pm.owner
+        ? this.getRouterPrefixes(pm.owner.filePath, pm.owner.variableName)
+        : [];
+      const prefixes = (ownerPrefixes.length > 0 ? ownerPrefixes : ['']).map((p) =>
+        joinRoutePaths(p, pm.prefix)
+      );
+
       // Check if route starts with the middleware prefix
-      if (route === pm.prefix || route.startsWith(pm.prefix + '/')) {
+      if (prefixes.some((prefix) => routeHasPrefix(route, prefix))) {
         result.push(...pm.middlewares);
       }
     }
@@ -81,11 +179,64 @@ export class RouteGroupRegistry {
 
   clear(): void {
     this.groups.clear();
-    this.routerMounts.clear();
+    this.routerMounts = [];
+    this.routerMiddlewares = [];
     this.pathMiddlewares = [];
   }
 
+  private collectContexts(
+    router: RouterRef,
+    position: number | undefined,
+    visiting: Set<string>
+  ): MountContext[] {
+    const key = this.makeKey(router.filePath, router.variableName);
+    if (visiting.has(key) || visiting.size > MAX_MOUNT_DEPTH) return [];
+    visiting.add(key);
+
+    const own = this.routerMiddlewares
+      .filter(
+        (m) =>
+          m.owner.filePath === router.filePath &&
+          m.owner.variableName === router.variableName &&
+          (position === undefined || m.position < position)
+      )
+      .flatMap((m) => m.middlewares);
+
+    // Keyed by prefix: when two chains reach the same path, Express runs the first one
+    const contexts = new Map<string, MountContext>();
+    const mounts = this.routerMounts.filter((m) => this.refersTo(m.router, router));
+    for (const mount of mounts) {
+      for (const parent of this.collectContexts(mount.parent, mount.position, visiting)) {
+        const prefix = joinRoutePaths(parent.prefix, mount.prefix);
+        if (!contexts.has(prefix)) {
+          contexts.set(prefix, { prefix, middlewares: [...parent.middlewares, ...own] });
+        }
+      }
+    }
+
+    visiting.delete(key);
+    return contexts.size > 0 ? [...contexts.values()] : [{ prefix: '', middlewares: own }];
+  }
+
+  private isMounted(router: RouterRef): boolean {
+    return this.routerMounts.some((m) => this.refersTo(m.router, router));
+  }
+
+  private refersTo(mounted: RouterRef, router: RouterRef): boolean {
+    if (mounted.variableName !== router.variableName) return false;
+    return mounted.filePath === '' || mounted.filePath === router.filePath;
+  }
+
   private makeKey(filePath: string, variableName: string): string {
     return `${filePath}::${variableName}`;
   }
 }
+
+function joinRoutePaths(prefix: string, path: string): string {
+  const joined = `${prefix}/${path}`.replace(/\/+/g, '/');
+  return joined.length > 1 && joined.endsWith('/') ? joined.slice(0, -1) : joined;
+}
+
+function routeHasPrefix(route: string, prefix: string): boolean {
+  return prefix === '/' || route === prefix || route.startsWith(prefix + '/');
+}
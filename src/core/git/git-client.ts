@@ -0,0 +1,62 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Thin wrapper around the local `git` executable. All commands run
+ * synchronously and throw with git's stderr when they fail.
+ */
+export class GitClient {
+  constructor(private readonly cwd: string) {}
+
+  getRepoRoot(): string {
+    return this.run(['rev-parse', '--show-toplevel']).trim();
+  }
+
+  /**
+   * Files changed on this branch since it diverged from `ref`, including
+   * uncommitted and untracked files. Deleted files are omitted. Returns absolute paths.
+   */
+  getChangedFiles(ref: string): string[] {
+    const root = this.getRepoRoot();
+    const mergeBase = this.run(['merge-base', ref, 'HEAD']).trim();
+    const changed = this.run(['diff', '--name-only', '--diff-filter=d', mergeBase]);
+    const untracked = this.run(['ls-files', '--others', '--exclude-standard', '--full-name']);
+
+    const files = `${changed}\n${untracked}`
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((file) => path.join(root, file));
+    return [...new Set(files)];
+  }
+
+  /** Checks out `ref` into a temporary detached worktree and returns its path */
+  createWorktree(ref: string): string {
+    const worktreePath = fs.mkdtempSync(path.join(os.tmpdir(), 'apiposture-'));
+    this.run(['worktree', 'add', '--detach', '--force', worktreePath, ref]);
+    return worktreePath;
+  }
+
+  removeWorktree(worktreePath: string): void {
+    try {
+      this.run(['worktree', 'remove', '--force', worktreePath]);
+    } finally {
+      fs.rmSync(worktreePath, { recursive: true, force: true });
+    }
+  }
+
+  private run(args: string[]): string {
+    try {
+      return execFileSync('git', args, {
+        cwd: this.cwd,
+        encoding: 'utf-8',
+        stdio: ['ignore', 'pipe', 'pipe'],
+      });
+    } catch (error) {
+      const stderr = (error as { stderr?: string }).stderr?.trim();
+      throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`);
+    }
+  }
+}
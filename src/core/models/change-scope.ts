@@ -0,0 +1,20 @@
+/**
+ * Describes a `--changed-since` scan: which files git reported as changed,
+ * which files' endpoints were considered affected, and what was left out.
+ */
+export interface ChangeScope {
+  /** Git ref the working tree was compared against */
+  since: string;
+  /** Changed source files (absolute paths) */
+  changedFiles: string[];
+  /**
+   * Changed files, the files using a changed guard, decorator or middleware,
+   * and everything they mount; only their endpoints are reported
+   */
+  affectedFiles: string[];
+  /**
+   * Endpoints found in context-only files (e.g. the app that mounts a changed
+   * router); they and their findings are left out of the result
+   */
+  excludedEndpoints: number;
+}
@@ -0,0 +1,42 @@
+import { EndpointType } from './endpoint-type.js';
+import { SourceLocation, formatSourceLocation } from './source-location.js';
+
+export type DiscoveryDiagnosticReason =
+  | 'unresolved-path'
+  | 'computed-method'
+  | 'unresolved-method'
+  | 'dynamic-handlers'
+  | 'dynamic-options';
+
+export const discoveryDiagnosticDescriptions: Record<DiscoveryDiagnosticReason, string> = {
+  'unresolved-path': 'route path could not be resolved',
+  'computed-method': 'HTTP method is computed at runtime',
+  'unresolved-method': 'HTTP method could not be resolved',
+  'dynamic-handlers': 'handlers are spread from a runtime array',
+  'dynamic-options': 'route options are not an object literal',
+};
+
+/**
+ * A call that looks like a route registration but that discovery could not
+ * fully understand, i.e. a place where the scan may be blind to part of the API.
+ */
+export interface DiscoveryDiagnostic {
+  framework: EndpointType;
+  reason: DiscoveryDiagnosticReason;
+  /** Source text of the call, shortened to its first line */
+  code: string;
+  location: SourceLocation;
+  /**
+   * True when no endpoint was reported for the call; false when it was
+   * reported with partial information (e.g. an `:unresolved` path segment)
+   */
+  skipped: boolean;
+}
+
+export function formatDiscoveryDiagnostic(diagnostic: DiscoveryDiagnostic): string {
+  const outcome = diagnostic.skipped ? 'skipped' : 'partially resolved';
+  return (
+    `${formatSourceLocation(diagnostic.location)} ${diagnostic.code} ` +
+    `(${discoveryDiagnosticDescriptions[diagnostic.reason]}; ${outcome})`
+  );
+}
@@ -1,11 +1,14 @@
 import { AuthorizationInfo, createDefaultAuthorizationInfo } from './authorization-info.js';
 import { EndpointType } from './endpoint-type.js';
-import { HttpMethod } from './http-method.js';
+import { EndpointMethod } from './http-method.js';
 import { SourceLocation } from './source-location.js';
+import { Transport } from './transport.js';
 
 export interface Endpoint {
+  /** URL path; the field, pattern or event name for GraphQL and message handlers */
   route: string;
-  method: HttpMethod;
+  method: EndpointMethod;
+  transport: Transport;
   handlerName: string;
   controllerName?: string;
   type: EndpointType;
@@ -19,6 +22,7 @@ export function createEndpoint(
   return {
     route: partial.route,
     method: partial.method,
+    transport: partial.transport ?? Transport.HTTP,
     handlerName: partial.handlerName ?? 'anonymous',
     controllerName: partial.controllerName,
     type: partial.type,
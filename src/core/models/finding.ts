@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { Endpoint } from './endpoint.js';
 import { Severity } from './severity.js';
 import { SourceLocation } from './source-location.js';
@@ -10,19 +11,73 @@ export interface Finding {
   endpoint: Endpoint;
   location: SourceLocation;
   recommendation: string;
+  /** Deterministic identity that survives line shifts and file renames */
+  fingerprint: string;
   suppressed: boolean;
   suppressionReason?: string;
+  /** Where the matching suppression was declared */
+  suppressionSource?: SuppressionSource;
+  /** Known finding recorded in the baseline file; hidden but not suppressed */
+  baselined: boolean;
 }
 
+export type SuppressionSource = 'config' | 'inline';
+
 export function createFinding(
-  partial: Omit<Finding, 'suppressed' | 'suppressionReason'> & {
+  partial: Omit<
+    Finding,
+    'fingerprint' | 'suppressed' | 'suppressionReason' | 'suppressionSource' | 'baselined'
+  > & {
+    fingerprint?: string;
     suppressed?: boolean;
     suppressionReason?: string;
+    suppressionSource?: SuppressionSource;
+    baselined?: boolean;
   }
 ): Finding {
   return {
     ...partial,
+    fingerprint: partial.fingerprint ?? computeFindingFingerprint(partial.ruleId, partial.endpoint),
     suppressed: partial.suppressed ?? false,
     suppressionReason: partial.suppressionReason,
+    suppressionSource: partial.suppressionSource,
+    baselined: partial.baselined ?? false,
   };
 }
+
+/** Findings that are neither suppressed nor known from the baseline */
+export function isActiveFinding(finding: Finding): boolean {
+  return !finding.suppressed && !finding.baselined;
+}
+
+/**
+ * Normalizes a route for identity purposes: parameter names are erased
+ * (`/users/:userId` and `/users/:id` are the same route) and slashes collapsed.
+ */
+export function normalizeRouteForFingerprint(route: string): string {
+  let normalized = route
+    .replace(/:[A-Za-z0-9_]+(\?)?/g, ':param$1')
+    .replace(/\{[^}/]+\}/g, '{param}')
+    .replace(/\/+/g, '/');
+  if (normalized.length > 1 && normalized.endsWith('/')) {
+    normalized = normalized.slice(0, -1);
+  }
+  return normalized;
+}
+
+/**
+ * Stable identity for a finding across runs. Built from the rule, HTTP method,
+ * normalized route, framework and handler/controller names only; source
+ * locations are deliberately left out so line shifts and file renames keep it.
+ */
+export function computeFindingFingerprint(ruleId: string, endpoint: Endpoint): string {
+  const parts = [
+    ruleId,
+    endpoint.method,
+    normalizeRouteForFingerprint(endpoint.route),
+    endpoint.type,
+    endpoint.controllerName ?? '',
+    endpoint.handlerName,
+  ];
+  return createHash('sha256').update(parts.join('|')).digest('hex').slice(0, 16);
+}
@@ -0,0 +1,8 @@
+/** Operation kind of a GraphQL resolver endpoint, reported where HTTP endpoints have their method */
+export enum GraphQLOperation {
+  QUERY = 'QUERY',
+  MUTATION = 'MUTATION',
+  SUBSCRIPTION = 'SUBSCRIPTION',
+  /** A field resolver on an object type (`@ResolveField()`) */
+  FIELD = 'FIELD',
+}
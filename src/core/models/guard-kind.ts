@@ -0,0 +1,12 @@
+/** What a NestJS guard checks, which decides whether it makes a route authenticated */
+export enum GuardKind {
+  Authentication = 'authentication',
+  Authorization = 'authorization',
+  RateLimiting = 'rate-limiting',
+  Other = 'other',
+}
+
+export function parseGuardKind(value: string): GuardKind | undefined {
+  const normalized = value.toLowerCase();
+  return Object.values(GuardKind).find((k) => k === normalized);
+}
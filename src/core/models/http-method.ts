@@ -1,3 +1,6 @@
+import { GraphQLOperation } from './graphql-operation.js';
+import { MessageKind } from './transport.js';
+
 export enum HttpMethod {
   GET = 'GET',
   POST = 'POST',
@@ -9,14 +12,21 @@ export enum HttpMethod {
   ALL = 'ALL',
 }
 
-export const writeMethods = new Set([
+/**
+ * What an endpoint is invoked with: an HTTP method, the operation kind of a
+ * GraphQL resolver, or the kind of a message handler
+ */
+export type EndpointMethod = HttpMethod | GraphQLOperation | MessageKind;
+
+export const writeMethods = new Set<EndpointMethod>([
   HttpMethod.POST,
   HttpMethod.PUT,
   HttpMethod.DELETE,
   HttpMethod.PATCH,
+  GraphQLOperation.MUTATION,
 ]);
 
-export function isWriteMethod(method: HttpMethod): boolean {
+export function isWriteMethod(method: EndpointMethod): boolean {
   return writeMethods.has(method);
 }
 
@@ -24,3 +34,12 @@ export function parseHttpMethod(value: string): HttpMethod | undefined {
   const normalized = value.toUpperCase();
   return Object.values(HttpMethod).find((m) => m === normalized);
 }
+
+export function parseEndpointMethod(value: string): EndpointMethod | undefined {
+  const normalized = value.toUpperCase();
+  return [
+    ...Object.values(HttpMethod),
+    ...Object.values(GraphQLOperation),
+    ...Object.values(MessageKind),
+  ].find((m) => m === normalized);
+}
@@ -1,9 +1,16 @@
 export * from './authorization-info.js';
+export * from './change-scope.js';
+export * from './discovery-diagnostic.js';
 export * from './endpoint.js';
 export * from './endpoint-type.js';
 export * from './finding.js';
+export * from './graphql-operation.js';
+export * from './guard-kind.js';
 export * from './http-method.js';
+export * from './inline-suppression.js';
 export * from './scan-result.js';
 export * from './security-classification.js';
 export * from './severity.js';
+export * from './stale-suppression.js';
 export * from './source-location.js';
+export * from './transport.js';
@@ -0,0 +1,12 @@
+import { SourceLocation } from './source-location.js';
+
+/**
+ * A suppression declared in source code with a comment such as
+ * `// apiposture-ignore AP001: health probe` on the line above an endpoint.
+ */
+export interface InlineSuppression {
+  ruleIds: string[];
+  reason: string;
+  /** Location of the endpoint declaration the comment is attached to */
+  location: SourceLocation;
+}
@@ -1,14 +1,24 @@
+import { ChangeScope } from './change-scope.js';
+import { DiscoveryDiagnostic } from './discovery-diagnostic.js';
 import { Endpoint } from './endpoint.js';
-import { Finding } from './finding.js';
+import { Finding, isActiveFinding } from './finding.js';
+import { InlineSuppression } from './inline-suppression.js';
 import { Severity, severityOrder } from './severity.js';
+import { StaleSuppression } from './stale-suppression.js';
 
 export interface ScanResult {
   projectPath: string;
   scanDate: Date;
   endpoints: Endpoint[];
   findings: Finding[];
+  inlineSuppressions: InlineSuppression[];
+  staleSuppressions: StaleSuppression[];
   filesScanned: number;
   scanDurationMs: number;
+  /** Route registrations discovery could not fully resolve */
+  diagnostics: DiscoveryDiagnostic[];
+  /** Set when the scan was restricted to files changed since a git ref */
+  changeScope?: ChangeScope;
 }
 
 export interface ScanSummary {
@@ -16,6 +26,11 @@ export interface ScanSummary {
   totalFindings: number;
   findingsBySeverity: Record<Severity, number>;
   suppressedFindings: number;
+  baselinedFindings: number;
+  expiredSuppressions: number;
+  unusedSuppressions: number;
+  /** Route registrations missing from `endpoints` because they could not be resolved */
+  skippedRoutes: number;
 }
 
 export function createScanResult(
@@ -26,13 +41,17 @@ export function createScanResult(
     scanDate: partial.scanDate ?? new Date(),
     endpoints: partial.endpoints ?? [],
     findings: partial.findings ?? [],
+    inlineSuppressions: partial.inlineSuppressions ?? [],
+    staleSuppressions: partial.staleSuppressions ?? [],
     filesScanned: partial.filesScanned ?? 0,
     scanDurationMs: partial.scanDurationMs ?? 0,
+    diagnostics: partial.diagnostics ?? [],
+    changeScope: partial.changeScope,
   };
 }
 
 export function getScanSummary(result: ScanResult): ScanSummary {
-  const activeFindings = result.findings.filter((f) => !f.suppressed);
+  const activeFindings = result.findings.filter(isActiveFinding);
   const findingsBySeverity = Object.values(Severity).reduce(
     (acc, severity) => {
       acc[severity] = activeFindings.filter((f) => f.severity === severity).length;
@@ -46,11 +65,16 @@ export function getScanSummary(result: ScanResult): ScanSummary {
     totalFindings: activeFindings.length,
     findingsBySeverity,
     suppressedFindings: result.findings.filter((f) => f.suppressed).length,
+    baselinedFindings: result.findings.filter((f) => !f.suppressed && f.baselined).length,
+    expiredSuppressions: result.staleSuppressions.filter((s) => s.status === 'expired').length,
+    unusedSuppressions: result.staleSuppressions.filter((s) => s.status === 'unused').length,
+    skippedRoutes: result.diagnostics.filter((d) => d.skipped).length,
   };
 }
 
+/** Highest severity among active findings; suppressed and baselined ones don't count */
 export function getHighestSeverity(result: ScanResult): Severity | null {
-  const activeFindings = result.findings.filter((f) => !f.suppressed);
+  const activeFindings = result.findings.filter(isActiveFinding);
   if (activeFindings.length === 0) return null;
 
   return activeFindings.reduce((highest, finding) => {
@@ -11,3 +11,11 @@ export function parseSecurityClassification(
   const normalized = value.toLowerCase();
   return Object.values(SecurityClassification).find((c) => c === normalized);
 }
+
+/** Relative strength of each classification; higher is more restrictive */
+export const classificationOrder: Record<SecurityClassification, number> = {
+  [SecurityClassification.Public]: 0,
+  [SecurityClassification.Authenticated]: 1,
+  [SecurityClassification.RoleRestricted]: 2,
+  [SecurityClassification.PolicyRestricted]: 3,
+};
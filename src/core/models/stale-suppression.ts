@@ -0,0 +1,35 @@
+import { SuppressionSource } from './finding.js';
+import { SourceLocation, formatSourceLocation } from './source-location.js';
+
+export type StaleSuppressionStatus = 'expired' | 'unused';
+
+/**
+ * A suppression that no longer does useful work: it is past its `expires`
+ * date (its findings are active again) or it matched nothing in this scan.
+ */
+export interface StaleSuppression {
+  status: StaleSuppressionStatus;
+  source: SuppressionSource;
+  reason: string;
+  ruleIds: string[];
+  route?: string;
+  routePattern?: string;
+  method?: string;
+  expires?: string;
+  owner?: string;
+  ticket?: string;
+  /** Comment location for inline suppressions */
+  location?: SourceLocation;
+}
+
+export function formatSuppressionTarget(suppression: StaleSuppression): string {
+  const rules = suppression.ruleIds.length > 0 ? suppression.ruleIds.join(',') : '*';
+
+  if (suppression.location) {
+    return `${rules} at ${formatSourceLocation(suppression.location)}`;
+  }
+
+  const method = suppression.method ? `${suppression.method.toUpperCase()} ` : '';
+  const route = suppression.route ?? suppression.routePattern ?? '*';
+  return `${rules} ${method}${route}`;
+}
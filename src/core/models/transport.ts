@@ -0,0 +1,17 @@
+/** How clients reach an endpoint; rules evaluate HTTP endpoints unless they opt in to others */
+export enum Transport {
+  /** HTTP routes, GraphQL operations included */
+  HTTP = 'http',
+  /** `@MessagePattern()` / `@EventPattern()` handlers of a NestJS microservice */
+  Microservice = 'microservice',
+  /** `@SubscribeMessage()` handlers of a NestJS WebSocket gateway */
+  WebSocket = 'websocket',
+}
+
+/** Kind of a message handler, reported where HTTP endpoints have their method */
+export enum MessageKind {
+  /** Request-response: `@MessagePattern()`, `@SubscribeMessage()` */
+  MESSAGE = 'MESSAGE',
+  /** Fire-and-forget: `@EventPattern()` */
+  EVENT = 'EVENT',
+}
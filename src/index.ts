@@ -2,6 +2,7 @@
 
 import { Command } from 'commander';
 import { createScanCommand } from './cli/commands/scan.js';
+import { createDiffCommand } from './cli/commands/diff.js';
 import { createActivateCommand } from './cli/commands/license/activate.js';
 import { createDeactivateCommand } from './cli/commands/license/deactivate.js';
 import { createStatusCommand } from './cli/commands/license/status.js';
@@ -16,6 +17,9 @@ program
 // Add scan command (default)
 program.addCommand(createScanCommand(), { isDefault: true });
 
+// Add diff command
+program.addCommand(createDiffCommand());
+
 // Add license subcommands
 const licenseCommand = new Command('license')
   .description('Manage license activation');
@@ -13,6 +13,9 @@ export { SourceFileLoader } from './core/analysis/source-file-loader.js';
 // Discovery
 export * from './core/discovery/index.js';
 
+// Diff
+export * from './core/diff/scan-diff.js';
+
 // Rules
 export { RuleEngine } from './rules/rule-engine.js';
 export type { SecurityRule } from './rules/rule-interface.js';
@@ -23,3 +26,7 @@ export type { OutputFormatter, FormatterOptions } from './output/formatter-inter
 export { TerminalFormatter } from './output/terminal-formatter.js';
 export { JsonFormatter } from './output/json-formatter.js';
 export { MarkdownFormatter } from './output/markdown-formatter.js';
+export type { DiffFormatter } from './output/diff/diff-formatter-interface.js';
+export { TerminalDiffFormatter } from './output/diff/terminal-diff-formatter.js';
+export { JsonDiffFormatter } from './output/diff/json-diff-formatter.js';
+export { MarkdownDiffFormatter } from './output/diff/markdown-diff-formatter.js';
@@ -0,0 +1,6 @@
+import { ScanDiff } from '../../core/diff/scan-diff.js';
+
+export interface DiffFormatter {
+  readonly name: string;
+  format(diff: ScanDiff): string;
+}
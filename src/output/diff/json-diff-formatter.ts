@@ -0,0 +1,46 @@
+import { DiffFormatter } from './diff-formatter-interface.js';
+import { ScanDiff } from '../../core/diff/scan-diff.js';
+
+export class JsonDiffFormatter implements DiffFormatter {
+  readonly name = 'json';
+
+  format(diff: ScanDiff): string {
+    const output = {
+      base: diff.base,
+      head: diff.head,
+      summary: {
+        addedEndpoints: diff.addedEndpoints.length,
+        removedEndpoints: diff.removedEndpoints.length,
+        weakenedEndpoints: diff.classificationChanges.filter((c) => c.direction === 'weakened').length,
+        strengthenedEndpoints: diff.classificationChanges.filter((c) => c.direction === 'strengthened').length,
+        accessChanges: diff.accessChanges.length,
+        newFindings: diff.newFindings.length,
+        resolvedFindings: diff.resolvedFindings.length,
+      },
+      addedEndpoints: diff.addedEndpoints,
+      removedEndpoints: diff.removedEndpoints,
+      classificationChanges: diff.classificationChanges.map((c) => ({
+        route: c.endpoint.route,
+        method: c.endpoint.method,
+        framework: c.endpoint.framework,
+        previous: c.previous,
+        current: c.current,
+        direction: c.direction,
+        location: { file: c.endpoint.file, line: c.endpoint.line },
+      })),
+      accessChanges: diff.accessChanges.map((c) => ({
+        route: c.endpoint.route,
+        method: c.endpoint.method,
+        framework: c.endpoint.framework,
+        addedRoles: c.addedRoles,
+        removedRoles: c.removedRoles,
+        addedPolicies: c.addedPolicies,
+        removedPolicies: c.removedPolicies,
+      })),
+      newFindings: diff.newFindings,
+      resolvedFindings: diff.resolvedFindings,
+    };
+
+    return JSON.stringify(output, null, 2);
+  }
+}
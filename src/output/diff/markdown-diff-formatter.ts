@@ -0,0 +1,141 @@
+import { DiffFormatter } from './diff-formatter-interface.js';
+import {
+  ScanDiff,
+  SnapshotEndpoint,
+  SnapshotFinding,
+  isEmptyDiff,
+} from '../../core/diff/scan-diff.js';
+import { severityOrder } from '../../core/models/severity.js';
+
+/**
+ * Renders a scan diff as a compact Markdown report, sized for posting
+ * as a pull request comment.
+ */
+export class MarkdownDiffFormatter implements DiffFormatter {
+  readonly name = 'markdown';
+
+  format(diff: ScanDiff): string {
+    const lines: string[] = [];
+    const weakened = diff.classificationChanges.filter((c) => c.direction === 'weakened');
+    const strengthened = diff.classificationChanges.filter((c) => c.direction === 'strengthened');
+
+    lines.push('## ApiPosture Security Diff');
+    lines.push('');
+    lines.push(`Comparing \`${diff.base}\` \u2192 \`${diff.head}\``);
+    lines.push('');
+
+    if (isEmptyDiff(diff)) {
+      lines.push('**No API security changes detected.**');
+      lines.push('');
+      return lines.join('\n');
+    }
+
+    lines.push('| Change | Count |');
+    lines.push('|--------|-------|');
+    lines.push(`| \u26a0\ufe0f Weakened authorization | ${weakened.length} |`);
+    lines.push(`| \ud83d\udd34 New findings | ${diff.newFindings.length} |`);
+    lines.push(`| \u2705 Resolved findings | ${diff.resolvedFindings.length} |`);
+    lines.push(`| \u2795 Added endpoints | ${diff.addedEndpoints.length} |`);
+    lines.push(`| \u2796 Removed endpoints | ${diff.removedEndpoints.length} |`);
+    lines.push(`| \ud83d\udd01 Role/policy changes | ${diff.accessChanges.length} |`);
+    lines.push('');
+
+    if (weakened.length > 0) {
+      lines.push('### \u26a0\ufe0f Weakened Authorization');
+      lines.push('');
+      lines.push('| Endpoint | Before | After | Location |');
+      lines.push('|----------|--------|-------|----------|');
+      for (const change of weakened) {
+        lines.push(
+          `| ${this.endpoint(change.endpoint)} | ${change.previous} | **${change.current}** | ${this.location(change.endpoint)} |`
+        );
+      }
+      lines.push('');
+    }
+
+    if (diff.newFindings.length > 0) {
+      lines.push('### New Findings');
+      lines.push('');
+      lines.push(...this.findingsTable(diff.newFindings));
+      lines.push('');
+    }
+
+    if (diff.resolvedFindings.length > 0) {
+      lines.push('### Resolved Findings');
+      lines.push('');
+      lines.push(...this.findingsTable(diff.resolvedFindings));
+      lines.push('');
+    }
+
+    if (diff.addedEndpoints.length > 0) {
+      lines.push('### Added Endpoints');
+      lines.push('');
+      lines.push(...this.endpointsTable(diff.addedEndpoints));
+      lines.push('');
+    }
+
+    if (diff.removedEndpoints.length > 0) {
+      lines.push('### Removed Endpoints');
+      lines.push('');
+      lines.push(...this.endpointsTable(diff.removedEndpoints));
+      lines.push('');
+    }
+
+    if (diff.accessChanges.length > 0 || strengthened.length > 0) {
+      lines.push('### Role, Policy and Classification Changes');
+      lines.push('');
+      lines.push('| Endpoint | Change |');
+      lines.push('|----------|--------|');
+      for (const change of strengthened) {
+        lines.push(`| ${this.endpoint(change.endpoint)} | ${change.previous} \u2192 ${change.current} |`);
+      }
+      for (const change of diff.accessChanges) {
+        const parts = [
+          ...change.addedRoles.map((r) => `+role \`${r}\``),
+          ...change.removedRoles.map((r) => `-role \`${r}\``),
+          ...change.addedPolicies.map((p) => `+policy \`${p}\``),
+          ...change.removedPolicies.map((p) => `-policy \`${p}\``),
+        ];
+        lines.push(`| ${this.endpoint(change.endpoint)} | ${parts.join(', ')} |`);
+      }
+      lines.push('');
+    }
+
+    lines.push('---');
+    lines.push('*Generated by ApiPosture*');
+    lines.push('');
+
+    return lines.join('\n');
+  }
+
+  private findingsTable(findings: SnapshotFinding[]): string[] {
+    const rows = ['| Severity | Rule | Endpoint | Message |', '|----------|------|----------|---------|'];
+    const sorted = [...findings].sort(
+      (a, b) => severityOrder[b.severity] - severityOrder[a.severity]
+    );
+    for (const finding of sorted) {
+      rows.push(
+        `| ${finding.severity} | ${finding.ruleId} | \`${finding.method} ${finding.route}\` | ${finding.message.replace(/\|/g, '\\|')} |`
+      );
+    }
+    return rows;
+  }
+
+  private endpointsTable(endpoints: SnapshotEndpoint[]): string[] {
+    const rows = ['| Endpoint | Classification | Framework | Location |', '|----------|----------------|-----------|----------|'];
+    for (const endpoint of endpoints) {
+      rows.push(
+        `| ${this.endpoint(endpoint)} | ${endpoint.classification} | ${endpoint.framework} | ${this.location(endpoint)} |`
+      );
+    }
+    return rows;
+  }
+
+  private endpoint(endpoint: SnapshotEndpoint): string {
+    return `\`${endpoint.method} ${endpoint.route}\``;
+  }
+
+  private location(endpoint: SnapshotEndpoint): string {
+    return `${endpoint.file}:${endpoint.line}`;
+  }
+}
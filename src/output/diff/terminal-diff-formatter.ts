@@ -0,0 +1,128 @@
+import { DiffFormatter } from './diff-formatter-interface.js';
+import { FormatterOptions } from '../formatter-interface.js';
+import { AccessibilityHelper } from '../accessibility-helper.js';
+import {
+  ScanDiff,
+  SnapshotEndpoint,
+  SnapshotFinding,
+  isEmptyDiff,
+} from '../../core/diff/scan-diff.js';
+import { severityOrder } from '../../core/models/severity.js';
+
+export class TerminalDiffFormatter implements DiffFormatter {
+  readonly name = 'terminal';
+  private helper: AccessibilityHelper;
+
+  constructor(options: FormatterOptions = {}) {
+    this.helper = new AccessibilityHelper({
+      noColor: options.noColor,
+      noIcons: options.noIcons,
+    });
+  }
+
+  format(diff: ScanDiff): string {
+    const lines: string[] = [];
+    const weakened = diff.classificationChanges.filter((c) => c.direction === 'weakened');
+    const strengthened = diff.classificationChanges.filter((c) => c.direction === 'strengthened');
+
+    lines.push('');
+    lines.push(this.helper.dim(`── ApiPosture Security Diff: ${diff.base} → ${diff.head} ──`));
+    lines.push('');
+
+    if (isEmptyDiff(diff)) {
+      lines.push(this.helper.green(`${this.helper.checkmark()} No API security changes detected`));
+      lines.push('');
+      return lines.join('\n');
+    }
+
+    if (weakened.length > 0) {
+      lines.push(this.helper.bold(`Weakened Authorization (${weakened.length})`));
+      for (const change of weakened) {
+        lines.push(
+          `  ${this.helper.warningmark()} ${this.endpoint(change.endpoint)} ` +
+            `${change.previous} → ${this.helper.red(change.current)} ${this.location(change.endpoint)}`
+        );
+      }
+      lines.push('');
+    }
+
+    if (diff.newFindings.length > 0) {
+      lines.push(this.helper.bold(`New Findings (${diff.newFindings.length})`));
+      for (const finding of this.sortBySeverity(diff.newFindings)) {
+        lines.push(`  ${this.finding(finding)}`);
+      }
+      lines.push('');
+    }
+
+    if (diff.resolvedFindings.length > 0) {
+      lines.push(this.helper.bold(`Resolved Findings (${diff.resolvedFindings.length})`));
+      for (const finding of this.sortBySeverity(diff.resolvedFindings)) {
+        lines.push(`  ${this.helper.checkmark()} ${this.helper.dim(this.findingText(finding))}`);
+      }
+      lines.push('');
+    }
+
+    if (diff.addedEndpoints.length > 0) {
+      lines.push(this.helper.bold(`Added Endpoints (${diff.addedEndpoints.length})`));
+      for (const endpoint of diff.addedEndpoints) {
+        lines.push(`  ${this.helper.green('+')} ${this.endpointWithClassification(endpoint)}`);
+      }
+      lines.push('');
+    }
+
+    if (diff.removedEndpoints.length > 0) {
+      lines.push(this.helper.bold(`Removed Endpoints (${diff.removedEndpoints.length})`));
+      for (const endpoint of diff.removedEndpoints) {
+        lines.push(`  ${this.helper.red('-')} ${this.endpointWithClassification(endpoint)}`);
+      }
+      lines.push('');
+    }
+
+    if (diff.accessChanges.length > 0 || strengthened.length > 0) {
+      lines.push(this.helper.bold('Role, Policy and Classification Changes'));
+      for (const change of strengthened) {
+        lines.push(`  ~ ${this.endpoint(change.endpoint)} ${change.previous} → ${this.helper.green(change.current)}`);
+      }
+      for (const change of diff.accessChanges) {
+        const parts = [
+          ...change.addedRoles.map((r) => this.helper.green(`+role:${r}`)),
+          ...change.removedRoles.map((r) => this.helper.red(`-role:${r}`)),
+          ...change.addedPolicies.map((p) => this.helper.green(`+policy:${p}`)),
+          ...change.removedPolicies.map((p) => this.helper.red(`-policy:${p}`)),
+        ];
+        lines.push(`  ~ ${this.endpoint(change.endpoint)} ${parts.join(' ')}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private endpoint(endpoint: SnapshotEndpoint): string {
+    return this.helper.cyan(`${endpoint.method} ${endpoint.route}`);
+  }
+
+  private endpointWithClassification(endpoint: SnapshotEndpoint): string {
+    return (
+      `${this.endpoint(endpoint)} ${this.helper.classificationIcon(endpoint.classification)} ` +
+      `${endpoint.classification} ${this.location(endpoint)}`
+    );
+  }
+
+  private location(endpoint: SnapshotEndpoint): string {
+    return this.helper.dim(`(${endpoint.file}:${endpoint.line})`);
+  }
+
+  private finding(finding: SnapshotFinding): string {
+    const icon = this.helper.severityIcon(finding.severity);
+    return `${icon} ${this.helper.severityColor(finding.severity, this.findingText(finding))}`;
+  }
+
+  private findingText(finding: SnapshotFinding): string {
+    return `[${finding.ruleId}] ${finding.message} (${finding.severity})`;
+  }
+
+  private sortBySeverity(findings: SnapshotFinding[]): SnapshotFinding[] {
+    return [...findings].sort((a, b) => severityOrder[b.severity] - severityOrder[a.severity]);
+  }
+}
@@ -3,3 +3,7 @@ export * from './accessibility-helper.js';
 export * from './terminal-formatter.js';
 export * from './json-formatter.js';
 export * from './markdown-formatter.js';
+export * from './diff/diff-formatter-interface.js';
+export * from './diff/terminal-diff-formatter.js';
+export * from './diff/json-diff-formatter.js';
+export * from './diff/markdown-diff-formatter.js';
@@ -1,5 +1,6 @@
 import { OutputFormatter } from './formatter-interface.js';
 import { ScanResult, getScanSummary } from '../core/models/scan-result.js';
+import { isActiveFinding } from '../core/models/finding.js';
 
 export class JsonFormatter implements OutputFormatter {
   readonly name = 'json';
@@ -13,16 +14,22 @@ export class JsonFormatter implements OutputFormatter {
         scanDate: result.scanDate.toISOString(),
         filesScanned: result.filesScanned,
         scanDurationMs: result.scanDurationMs,
+        changeScope: result.changeScope,
       },
       summary: {
         totalEndpoints: summary.totalEndpoints,
         totalFindings: summary.totalFindings,
         findingsBySeverity: summary.findingsBySeverity,
         suppressedFindings: summary.suppressedFindings,
+        baselinedFindings: summary.baselinedFindings,
+        expiredSuppressions: summary.expiredSuppressions,
+        unusedSuppressions: summary.unusedSuppressions,
+        skippedRoutes: summary.skippedRoutes,
       },
       endpoints: result.endpoints.map((e) => ({
         route: e.route,
         method: e.method,
+        transport: e.transport,
         handler: e.handlerName,
         controller: e.controllerName,
         framework: e.type,
@@ -40,8 +47,9 @@ export class JsonFormatter implements OutputFormatter {
         },
       })),
       findings: result.findings
-        .filter((f) => !f.suppressed)
+        .filter(isActiveFinding)
         .map((f) => ({
+          fingerprint: f.fingerprint,
           ruleId: f.ruleId,
           ruleName: f.ruleName,
           severity: f.severity,
@@ -60,6 +68,7 @@ export class JsonFormatter implements OutputFormatter {
       suppressedFindings: result.findings
         .filter((f) => f.suppressed)
         .map((f) => ({
+          fingerprint: f.fingerprint,
           ruleId: f.ruleId,
           ruleName: f.ruleName,
           severity: f.severity,
@@ -67,8 +76,56 @@ export class JsonFormatter implements OutputFormatter {
             route: f.endpoint.route,
             method: f.endpoint.method,
           },
+          location: {
+            file: f.location.filePath,
+            line: f.location.line,
+            column: f.location.column,
+          },
           suppressionReason: f.suppressionReason,
+          suppressionSource: f.suppressionSource,
+        })),
+      baselinedFindings: result.findings
+        .filter((f) => !f.suppressed && f.baselined)
+        .map((f) => ({
+          fingerprint: f.fingerprint,
+          ruleId: f.ruleId,
+          ruleName: f.ruleName,
+          severity: f.severity,
+          endpoint: {
+            route: f.endpoint.route,
+            method: f.endpoint.method,
+          },
         })),
+      staleSuppressions: result.staleSuppressions.map((s) => ({
+        status: s.status,
+        source: s.source,
+        ruleIds: s.ruleIds,
+        route: s.route,
+        routePattern: s.routePattern,
+        method: s.method,
+        location: s.location
+          ? {
+              file: s.location.filePath,
+              line: s.location.line,
+              column: s.location.column,
+            }
+          : undefined,
+        reason: s.reason,
+        expires: s.expires,
+        owner: s.owner,
+        ticket: s.ticket,
+      })),
+      diagnostics: result.diagnostics.map((d) => ({
+        framework: d.framework,
+        reason: d.reason,
+        code: d.code,
+        skipped: d.skipped,
+        location: {
+          file: d.location.filePath,
+          line: d.location.line,
+          column: d.location.column,
+        },
+      })),
     };
 
     return JSON.stringify(output, null, 2);
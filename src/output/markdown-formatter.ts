@@ -1,8 +1,10 @@
 import { OutputFormatter } from './formatter-interface.js';
 import { ScanResult, getScanSummary } from '../core/models/scan-result.js';
-import { Finding } from '../core/models/finding.js';
+import { Finding, isActiveFinding } from '../core/models/finding.js';
 import { Severity, severityOrder } from '../core/models/severity.js';
 import { formatSourceLocation } from '../core/models/source-location.js';
+import { formatSuppressionTarget } from '../core/models/stale-suppression.js';
+import { discoveryDiagnosticDescriptions } from '../core/models/discovery-diagnostic.js';
 
 export class MarkdownFormatter implements OutputFormatter {
   readonly name = 'markdown';
@@ -25,6 +27,13 @@ export class MarkdownFormatter implements OutputFormatter {
     lines.push(`| Files Scanned | ${result.filesScanned} |`);
     lines.push(`| Endpoints Found | ${summary.totalEndpoints} |`);
     lines.push(`| Scan Duration | ${result.scanDurationMs}ms |`);
+    if (result.diagnostics.length > 0) {
+      lines.push(`| Routes Skipped | ${summary.skippedRoutes} (see Discovery Diagnostics) |`);
+    }
+    if (result.changeScope) {
+      lines.push(`| Changed Since | \`${result.changeScope.since}\` (${result.changeScope.changedFiles.length} files) |`);
+      lines.push(`| Endpoints Outside Change | ${result.changeScope.excludedEndpoints} (not reported) |`);
+    }
     lines.push('');
 
     // Summary
@@ -55,7 +64,7 @@ export class MarkdownFormatter implements OutputFormatter {
       lines.push('## Findings');
       lines.push('');
 
-      const activeFindings = result.findings.filter((f) => !f.suppressed);
+      const activeFindings = result.findings.filter(isActiveFinding);
       const sortedFindings = this.sortFindingsBySeverity(activeFindings);
 
       for (const finding of sortedFindings) {
@@ -83,6 +92,68 @@ export class MarkdownFormatter implements OutputFormatter {
       lines.push('');
       lines.push(`${summary.suppressedFindings} findings were suppressed.`);
       lines.push('');
+      lines.push('| Rule | Endpoint | Source | Reason |');
+      lines.push('|------|----------|--------|--------|');
+
+      for (const finding of result.findings.filter((f) => f.suppressed)) {
+        lines.push(
+          `| ${finding.ruleId} | \`${finding.endpoint.method} ${finding.endpoint.route}\` | ${finding.suppressionSource ?? 'config'} | ${this.escapeTableCell(finding.suppressionReason ?? '')} |`
+        );
+      }
+
+      lines.push('');
+    }
+
+    // Baselined
+    if (summary.baselinedFindings > 0) {
+      lines.push('## Baselined Findings');
+      lines.push('');
+      lines.push(
+        `${summary.baselinedFindings} known findings from the baseline are not shown above.`
+      );
+      lines.push('');
+    }
+
+    // Stale suppressions
+    if (result.staleSuppressions.length > 0) {
+      lines.push('## Stale Suppressions');
+      lines.push('');
+      lines.push(
+        `${summary.expiredSuppressions} expired and ${summary.unusedSuppressions} unused suppressions. ` +
+          'Expired suppressions no longer hide findings; unused ones matched nothing in this scan.'
+      );
+      lines.push('');
+      lines.push('| Status | Suppression | Source | Expires | Owner | Ticket | Reason |');
+      lines.push('|--------|-------------|--------|---------|-------|--------|--------|');
+
+      for (const suppression of result.staleSuppressions) {
+        lines.push(
+          `| ${suppression.status} | \`${formatSuppressionTarget(suppression)}\` | ${suppression.source} | ${suppression.expires ?? ''} | ${this.escapeTableCell(suppression.owner ?? '')} | ${this.escapeTableCell(suppression.ticket ?? '')} | ${this.escapeTableCell(suppression.reason)} |`
+        );
+      }
+
+      lines.push('');
+    }
+
+    // Route registrations discovery could not resolve
+    if (result.diagnostics.length > 0) {
+      lines.push('## Discovery Diagnostics');
+      lines.push('');
+      lines.push(
+        `${result.diagnostics.length} route registrations could not be fully resolved; ` +
+          `${summary.skippedRoutes} of them are missing from this report.`
+      );
+      lines.push('');
+      lines.push('| Location | Framework | Code | Reason | Outcome |');
+      lines.push('|----------|-----------|------|--------|---------|');
+
+      for (const diagnostic of result.diagnostics) {
+        lines.push(
+          `| \`${formatSourceLocation(diagnostic.location)}\` | ${diagnostic.framework} | \`\` ${this.escapeTableCell(diagnostic.code)} \`\` | ${discoveryDiagnosticDescriptions[diagnostic.reason]} | ${diagnostic.skipped ? 'skipped' : 'partially resolved'} |`
+        );
+      }
+
+      lines.push('');
     }
 
     // Footer
@@ -105,6 +176,8 @@ export class MarkdownFormatter implements OutputFormatter {
     lines.push('');
     lines.push(`**Location:** \`${formatSourceLocation(finding.location)}\``);
     lines.push('');
+    lines.push(`**Fingerprint:** \`${finding.fingerprint}\``);
+    lines.push('');
     lines.push(`**Message:** ${finding.message}`);
     lines.push('');
     lines.push('**Recommendation:**');
@@ -115,6 +188,10 @@ export class MarkdownFormatter implements OutputFormatter {
     return lines.join('\n');
   }
 
+  private escapeTableCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+  }
+
   private getSeverityBadge(severity: Severity): string {
     switch (severity) {
       case Severity.Critical:
@@ -1,11 +1,13 @@
 import { OutputFormatter, FormatterOptions } from './formatter-interface.js';
 import { AccessibilityHelper } from './accessibility-helper.js';
 import { ScanResult, getScanSummary } from '../core/models/scan-result.js';
-import { Finding } from '../core/models/finding.js';
+import { Finding, isActiveFinding } from '../core/models/finding.js';
 import { Endpoint } from '../core/models/endpoint.js';
 import { Severity, severityOrder } from '../core/models/severity.js';
 import { SecurityClassification } from '../core/models/security-classification.js';
 import { formatSourceLocation } from '../core/models/source-location.js';
+import { StaleSuppression, formatSuppressionTarget } from '../core/models/stale-suppression.js';
+import { formatDiscoveryDiagnostic } from '../core/models/discovery-diagnostic.js';
 
 export class TerminalFormatter implements OutputFormatter {
   readonly name = 'terminal';
@@ -21,7 +23,7 @@ export class TerminalFormatter implements OutputFormatter {
   format(result: ScanResult): string {
     const lines: string[] = [];
     const summary = getScanSummary(result);
-    const activeFindings = result.findings.filter((f) => !f.suppressed);
+    const activeFindings = result.findings.filter(isActiveFinding);
     const sortedFindings = this.sortFindingsBySeverity(activeFindings);
 
     // Header
@@ -55,6 +57,54 @@ export class TerminalFormatter implements OutputFormatter {
     // Suppressed findings note
     if (summary.suppressedFindings > 0) {
       lines.push(this.helper.dim(`(${summary.suppressedFindings} findings suppressed)`));
+      for (const finding of result.findings.filter((f) => f.suppressed)) {
+        lines.push(this.helper.dim(`  ${this.formatSuppressedFinding(finding)}`));
+      }
+      lines.push('');
+    }
+
+    // Baselined findings note
+    if (summary.baselinedFindings > 0) {
+      lines.push(this.helper.dim(`(${summary.baselinedFindings} known findings hidden by baseline)`));
+      lines.push('');
+    }
+
+    // Route registrations discovery could not resolve
+    if (result.diagnostics.length > 0) {
+      lines.push(
+        this.helper.yellow(
+          `${this.helper.warningmark()} Unresolved route registrations (${summary.skippedRoutes} skipped, ` +
+            `${result.diagnostics.length - summary.skippedRoutes} partially resolved)`
+        )
+      );
+      for (const diagnostic of result.diagnostics) {
+        lines.push(`  ${formatDiscoveryDiagnostic(diagnostic)}`);
+      }
+      lines.push('');
+    }
+
+    // Changed-files scope note
+    if (result.changeScope) {
+      const scope = result.changeScope;
+      lines.push(
+        this.helper.dim(
+          `(Scan limited to ${scope.changedFiles.length} files changed since ${scope.since}; ` +
+            `${scope.excludedEndpoints} endpoints in unchanged mounting files not reported)`
+        )
+      );
+      lines.push('');
+    }
+
+    // Expired and unused suppressions
+    if (result.staleSuppressions.length > 0) {
+      lines.push(
+        this.helper.yellow(
+          `${this.helper.warningmark()} Stale suppressions (${summary.expiredSuppressions} expired, ${summary.unusedSuppressions} unused)`
+        )
+      );
+      for (const suppression of result.staleSuppressions) {
+        lines.push(`  ${this.formatStaleSuppression(suppression)}`);
+      }
       lines.push('');
     }
 
@@ -216,6 +266,27 @@ export class TerminalFormatter implements OutputFormatter {
     return lines.join('\n');
   }
 
+  private formatSuppressedFinding(finding: Finding): string {
+    const source = finding.suppressionSource ?? 'config';
+    return (
+      `[${finding.ruleId}] ${finding.endpoint.method.toUpperCase()} ${finding.endpoint.route}` +
+      ` (${source}): ${finding.suppressionReason ?? ''}`
+    );
+  }
+
+  private formatStaleSuppression(suppression: StaleSuppression): string {
+    const status =
+      suppression.status === 'expired'
+        ? this.helper.red(`[EXPIRED ${suppression.expires}]`)
+        : this.helper.yellow('[UNUSED]');
+    const details = [
+      suppression.owner ? `owner: ${suppression.owner}` : null,
+      suppression.ticket ? `ticket: ${suppression.ticket}` : null,
+    ].filter(Boolean);
+    const suffix = details.length > 0 ? this.helper.dim(` (${details.join(', ')})`) : '';
+    return `${status} ${formatSuppressionTarget(suppression)}: ${suppression.reason}${suffix}`;
+  }
+
   private sortFindingsBySeverity(findings: Finding[]): Finding[] {
     return [...findings].sort(
       (a, b) => severityOrder[b.severity] - severityOrder[a.severity]
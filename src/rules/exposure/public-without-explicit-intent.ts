@@ -2,6 +2,7 @@ import { Endpoint } from '../../core/models/endpoint.js';
 import { Finding, createFinding } from '../../core/models/finding.js';
 import { Severity } from '../../core/models/severity.js';
 import { SecurityClassification } from '../../core/models/security-classification.js';
+import { Transport } from '../../core/models/transport.js';
 import { SecurityRule } from '../rule-interface.js';
 import { isKnownPublicEndpoint } from '../known-public-routes.js';
 
@@ -18,6 +19,8 @@ export class PublicWithoutExplicitIntent implements SecurityRule {
   readonly description =
     'Endpoint is publicly accessible without explicit @Public or allowAnonymous marker';
   readonly severity = Severity.High;
+  // Gateways face clients like HTTP routes do; microservice handlers sit behind a broker
+  readonly transports = [Transport.HTTP, Transport.WebSocket];
 
   evaluate(endpoint: Endpoint): Finding[] {
     const findings: Finding[] = [];
@@ -59,6 +62,12 @@ export class PublicWithoutExplicitIntent implements SecurityRule {
           'mark as explicitly public with allowAnonymous middleware if intentional.'
         );
       case 'nestjs':
+        if (endpoint.transport !== Transport.HTTP) {
+          return (
+            'Add @UseGuards() with a guard that reads credentials from the socket or message ' +
+            '(e.g., WsJwtGuard) to the gateway or handler, or add @Public() if intentional.'
+          );
+        }
         return (
           'Add @UseGuards(AuthGuard) to require authentication, or ' +
           'add @Public() decorator if public access is intentional.'
@@ -1,5 +1,6 @@
 export * from './rule-interface.js';
 export * from './rule-engine.js';
+export * from './rule-options.js';
 export * from './exposure/public-without-explicit-intent.js';
 export * from './exposure/allow-anonymous-on-write.js';
 export * from './consistency/controller-action-conflict.js';
@@ -3,6 +3,13 @@ import { Finding, createFinding } from '../../core/models/finding.js';
 import { Severity } from '../../core/models/severity.js';
 import { SecurityRule } from '../rule-interface.js';
 
+export interface ExcessiveRoleAccessOptions {
+  /** Maximum number of roles an endpoint may allow before it is flagged (default 3) */
+  maxRoles?: number;
+}
+
+const DEFAULT_MAX_ROLES = 3;
+
 /**
  * AP005: Excessive role access
  *
@@ -13,10 +20,15 @@ import { SecurityRule } from '../rule-interface.js';
 export class ExcessiveRoleAccess implements SecurityRule {
   readonly id = 'AP005';
   readonly name = 'Excessive role access';
-  readonly description = 'Endpoint allows more than 3 roles';
+  readonly description: string;
   readonly severity = Severity.Low;
 
-  private readonly maxRoles = 3;
+  private readonly maxRoles: number;
+
+  constructor(options: ExcessiveRoleAccessOptions = {}) {
+    this.maxRoles = options.maxRoles ?? DEFAULT_MAX_ROLES;
+    this.description = `Endpoint allows more than ${this.maxRoles} roles`;
+  }
 
   evaluate(endpoint: Endpoint): Finding[] {
     const findings: Finding[] = [];
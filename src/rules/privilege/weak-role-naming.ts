@@ -3,6 +3,29 @@ import { Finding, createFinding } from '../../core/models/finding.js';
 import { Severity } from '../../core/models/severity.js';
 import { SecurityRule } from '../rule-interface.js';
 
+export interface WeakRoleNamingOptions {
+  /** Role names (case-insensitive) to flag in addition to the built-in generic names */
+  additionalWeakRoles?: string[];
+  /** Built-in generic role names (case-insensitive) that should no longer be flagged */
+  allowedRoles?: string[];
+}
+
+const DEFAULT_WEAK_ROLES = [
+  'user',
+  'admin',
+  'guest',
+  'member',
+  'moderator',
+  'manager',
+  'superuser',
+  'root',
+  'default',
+  'basic',
+  'standard',
+  'premium',
+  'vip',
+];
+
 /**
  * AP006: Weak role naming
  *
@@ -16,29 +39,22 @@ export class WeakRoleNaming implements SecurityRule {
   readonly description = 'Role names are too generic or weak';
   readonly severity = Severity.Low;
 
-  private readonly weakPatterns = [
-    /^user$/i,
-    /^admin$/i,
-    /^guest$/i,
-    /^member$/i,
-    /^moderator$/i,
-    /^manager$/i,
-    /^superuser$/i,
-    /^root$/i,
-    /^default$/i,
-    /^basic$/i,
-    /^standard$/i,
-    /^premium$/i,
-    /^vip$/i,
-  ];
+  private readonly weakRoles: Set<string>;
+
+  constructor(options: WeakRoleNamingOptions = {}) {
+    const allowed = new Set((options.allowedRoles ?? []).map((r) => r.toLowerCase()));
+    this.weakRoles = new Set(
+      [...DEFAULT_WEAK_ROLES, ...(options.additionalWeakRoles ?? [])]
+        .map((r) => r.toLowerCase())
+        .filter((r) => !allowed.has(r))
+    );
+  }
 
   evaluate(endpoint: Endpoint): Finding[] {
     const findings: Finding[] = [];
 
     const roles = endpoint.authorization.roles;
-    const weakRoles = roles.filter((role) =>
-      this.weakPatterns.some((pattern) => pattern.test(role))
-    );
+    const weakRoles = roles.filter((role) => this.weakRoles.has(role.toLowerCase()));
 
     if (weakRoles.length > 0) {
       findings.push(
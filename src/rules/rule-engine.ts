@@ -1,6 +1,9 @@
 import { Endpoint } from '../core/models/endpoint.js';
 import { Finding } from '../core/models/finding.js';
+import { Severity } from '../core/models/severity.js';
+import { Transport } from '../core/models/transport.js';
 import { SecurityRule, RuleConfig } from './rule-interface.js';
+import { RuleOptionsMap } from './rule-options.js';
 
 // Import all rules
 import { PublicWithoutExplicitIntent } from './exposure/public-without-explicit-intent.js';
@@ -18,20 +21,25 @@ export interface RuleEngineConfig {
 
 export class RuleEngine {
   private rules: SecurityRule[] = [];
+  private severityOverrides: Map<string, Severity> = new Map();
 
   constructor(config?: RuleEngineConfig) {
     this.initializeRules(config);
   }
 
   private initializeRules(config?: RuleEngineConfig): void {
+    // Options are validated by ConfigLoader; here they are taken as typed
+    const options = <K extends keyof RuleOptionsMap>(id: K): RuleOptionsMap[K] =>
+      (config?.rules?.[id]?.options ?? {}) as RuleOptionsMap[K];
+
     const allRules: SecurityRule[] = [
       new PublicWithoutExplicitIntent(),
       new AllowAnonymousOnWrite(),
       new ControllerActionConflict(),
       new MissingAuthOnWrites(),
-      new ExcessiveRoleAccess(),
-      new WeakRoleNaming(),
-      new SensitiveRouteKeywords(),
+      new ExcessiveRoleAccess(options('AP005')),
+      new WeakRoleNaming(options('AP006')),
+      new SensitiveRouteKeywords(options('AP007')),
       new UnprotectedEndpoint(),
     ];
 
@@ -43,6 +51,10 @@ export class RuleEngine {
         continue;
       }
 
+      if (ruleConfig?.severity) {
+        this.severityOverrides.set(rule.id, ruleConfig.severity);
+      }
+
       this.rules.push(rule);
     }
   }
@@ -52,8 +64,14 @@ export class RuleEngine {
 
     for (const endpoint of endpoints) {
       for (const rule of this.rules) {
+        if (!(rule.transports ?? [Transport.HTTP]).includes(endpoint.transport)) {
+          continue;
+        }
         const ruleFindings = rule.evaluate(endpoint);
-        findings.push(...ruleFindings);
+        const severity = this.severityOverrides.get(rule.id);
+        findings.push(
+          ...(severity ? ruleFindings.map((f) => ({ ...f, severity })) : ruleFindings)
+        );
       }
     }
 
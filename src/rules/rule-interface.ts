@@ -1,18 +1,23 @@
 import { Endpoint } from '../core/models/endpoint.js';
 import { Finding } from '../core/models/finding.js';
 import { Severity } from '../core/models/severity.js';
+import { Transport } from '../core/models/transport.js';
 
 export interface SecurityRule {
   readonly id: string;
   readonly name: string;
   readonly description: string;
   readonly severity: Severity;
+  /** Transports whose endpoints the rule evaluates; HTTP only when not set */
+  readonly transports?: readonly Transport[];
 
   evaluate(endpoint: Endpoint): Finding[];
 }
 
 export interface RuleConfig {
-  enabled: boolean;
+  /** Rules are enabled unless explicitly set to false */
+  enabled?: boolean;
+  /** Overrides the rule's default severity for every finding it reports */
   severity?: Severity;
   options?: Record<string, unknown>;
 }
@@ -0,0 +1,77 @@
+import { ExcessiveRoleAccessOptions } from './privilege/excessive-role-access.js';
+import { WeakRoleNamingOptions } from './privilege/weak-role-naming.js';
+import { SensitiveRouteKeywordsOptions } from './surface/sensitive-route-keywords.js';
+
+/**
+ * Typed `options` accepted by each configurable rule in `.apiposture.json`.
+ * Rules not listed here take no options.
+ */
+export interface RuleOptionsMap {
+  AP005: ExcessiveRoleAccessOptions;
+  AP006: WeakRoleNamingOptions;
+  AP007: SensitiveRouteKeywordsOptions;
+}
+
+interface OptionSchema {
+  expected: string;
+  validate(value: unknown): boolean;
+}
+
+const positiveInteger: OptionSchema = {
+  expected: 'a positive integer',
+  validate: (value) => typeof value === 'number' && Number.isInteger(value) && value > 0,
+};
+
+const stringArray: OptionSchema = {
+  expected: 'an array of strings',
+  validate: (value) => Array.isArray(value) && value.every((v) => typeof v === 'string'),
+};
+
+const RULE_OPTION_SCHEMAS: {
+  [K in keyof RuleOptionsMap]: Record<keyof RuleOptionsMap[K], OptionSchema>;
+} = {
+  AP005: {
+    maxRoles: positiveInteger,
+  },
+  AP006: {
+    additionalWeakRoles: stringArray,
+    allowedRoles: stringArray,
+  },
+  AP007: {
+    additionalKeywords: stringArray,
+    excludeKeywords: stringArray,
+  },
+};
+
+export interface RuleOptionsValidationResult {
+  options: Record<string, unknown>;
+  errors: string[];
+}
+
+/**
+ * Validates the `options` block configured for a rule. Invalid or unknown
+ * options are reported in `errors` and left out of the returned `options`.
+ */
+export function validateRuleOptions(
+  ruleId: string,
+  options: Record<string, unknown>
+): RuleOptionsValidationResult {
+  const schema = (RULE_OPTION_SCHEMAS as Record<string, Record<string, OptionSchema>>)[ruleId];
+  const valid: Record<string, unknown> = {};
+  const errors: string[] = [];
+
+  for (const [key, value] of Object.entries(options)) {
+    const optionSchema = schema?.[key];
+    if (!optionSchema) {
+      errors.push(`Unknown option "${key}" for rule ${ruleId}`);
+      continue;
+    }
+    if (!optionSchema.validate(value)) {
+      errors.push(`Option "${key}" for rule ${ruleId} must be ${optionSchema.expected}`);
+      continue;
+    }
+    valid[key] = value;
+  }
+
+  return { options: valid, errors };
+}
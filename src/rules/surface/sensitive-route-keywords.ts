@@ -4,6 +4,37 @@ import { Severity } from '../../core/models/severity.js';
 import { SecurityClassification } from '../../core/models/security-classification.js';
 import { SecurityRule } from '../rule-interface.js';
 
+export interface SensitiveRouteKeywordsOptions {
+  /** Domain-specific keywords to flag in addition to the built-in list */
+  additionalKeywords?: string[];
+  /** Built-in keywords that should no longer be flagged */
+  excludeKeywords?: string[];
+}
+
+// "health" removed: health-check endpoints are public by convention (K8s probes).
+const DEFAULT_SENSITIVE_KEYWORDS = [
+  'admin',
+  'debug',
+  'internal',
+  'export',
+  'import',
+  'backup',
+  'config',
+  'settings',
+  'system',
+  'management',
+  'dashboard',
+  'metrics',
+  'logs',
+  'audit',
+  'secret',
+  'private',
+  'hidden',
+  'test',
+  'dev',
+  'staging',
+];
+
 /**
  * AP007: Sensitive route keywords
  *
@@ -17,31 +48,18 @@ export class SensitiveRouteKeywords implements SecurityRule {
   readonly description = 'Public route contains sensitive keywords';
   readonly severity = Severity.Medium;
 
-  // "health" removed: health-check endpoints are public by convention (K8s probes).
   // Matching is segment-level to avoid substring FPs (e.g. "test" inside "latest",
   // "dev" inside "developer").
-  private readonly sensitiveKeywords = new Set([
-    'admin',
-    'debug',
-    'internal',
-    'export',
-    'import',
-    'backup',
-    'config',
-    'settings',
-    'system',
-    'management',
-    'dashboard',
-    'metrics',
-    'logs',
-    'audit',
-    'secret',
-    'private',
-    'hidden',
-    'test',
-    'dev',
-    'staging',
-  ]);
+  private readonly sensitiveKeywords: Set<string>;
+
+  constructor(options: SensitiveRouteKeywordsOptions = {}) {
+    const excluded = new Set((options.excludeKeywords ?? []).map((k) => k.toLowerCase()));
+    this.sensitiveKeywords = new Set(
+      [...DEFAULT_SENSITIVE_KEYWORDS, ...(options.additionalKeywords ?? [])]
+        .map((k) => k.toLowerCase())
+        .filter((k) => !excluded.has(k))
+    );
+  }
 
   evaluate(endpoint: Endpoint): Finding[] {
     const findings: Finding[] = [];
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChangedFileResolver } from '../../../src/core/analysis/changed-file-resolver.js';
+
+describe('ChangedFileResolver', () => {
+  let tmpDir: string;
+
+  function write(relative: string, content: string): string {
+    const filePath = path.join(tmpDir, relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apiposture-changed-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('scans changed files with their importers as context and their imports as affected', () => {
+    const app = write('src/app.ts', "import users from './routes/users.js';\napp.use('/users', users);");
+    const users = write(
+      'src/routes/users.ts',
+      "const admin = require('./admin');\nimport { db } from '../db';\nrouter.use('/admin', admin);"
+    );
+    const admin = write('src/routes/admin.js', "router.get('/', handler);");
+    const db = write('src/db/index.ts', 'export const db = {};');
+    const unrelated = write('src/health.ts', "app.get('/health', handler);");
+
+    const result = new ChangedFileResolver().resolve(
+      [app, users, admin, db, unrelated],
+      [users, path.join(tmpDir, 'README.md')]
+    );
+
+    expect(result.changedFiles).toEqual([users]);
+    expect(result.scanFiles).toEqual([app, users, admin, db]);
+    expect(result.affectedFiles).toEqual([admin, db, users].sort());
+  });
+
+  it('scans importers transitively up to the file mounting a nested router', () => {
+    const app = write('src/app.ts', "import api from './routes/index.js';\napp.use('/api', requireAuth, api);");
+    const index = write('src/routes/index.ts', "import users from './users.js';\nrouter.use(users);");
+    const users = write('src/routes/users.ts', "router.get('/users/public', handler);");
+    const other = write('src/routes/other.ts', "router.get('/other', handler);");
+
+    const result = new ChangedFileResolver().resolve([app, index, users, other], [users]);
+
+    expect(result.scanFiles).toEqual([app, index, users]);
+    expect(result.affectedFiles).toEqual([users]);
+  });
+
+  it('treats routers mounted by mounted routers as affected', () => {
+    const app = write('src/app.js', "const api = require('./routes');\napp.use('/api', api);");
+    const index = write('src/routes/index.js', "const users = require('./users');\nrouter.use('/users', users);");
+    const users = write('src/routes/users.js', "router.get('/:id', handler);");
+
+    const result = new ChangedFileResolver().resolve([app, index, users], [app]);
+
+    expect(result.affectedFiles).toEqual([app, index, users].sort());
+  });
+
+  it('treats the users of a changed guard as affected, through decorators wrapping it', () => {
+    const guard = write('src/auth/jwt.guard.ts', 'export class JwtGuard implements CanActivate {}');
+    const decorator = write(
+      'src/auth/auth.decorator.ts',
+      "import { JwtGuard } from './jwt.guard';\nexport const Auth = () => applyDecorators(UseGuards(JwtGuard));"
+    );
+    const users = write(
+      'src/users/users.controller.ts',
+      "import { Auth } from '../auth/auth.decorator';\n@Controller('users') @Auth() class UsersController {}"
+    );
+    const module = write('src/users/users.module.ts', "import { UsersController } from './users.controller';");
+    const health = write('src/health.controller.ts', "@Controller('health') class HealthController {}");
+
+    const result = new ChangedFileResolver().resolve([guard, decorator, users, module, health], [guard]);
+
+    expect(result.affectedFiles).toEqual([decorator, guard, users].sort());
+    expect(result.scanFiles).toEqual([guard, decorator, users, module]);
+  });
+
+  it('always scans files with app-wide configuration for context', () => {
+    const main = write('src/main.ts', 'app.useGlobalGuards(new JwtAuthGuard());');
+    const controller = write('src/users.controller.ts', "@Controller('users') class UsersController {}");
+
+    const result = new ChangedFileResolver().resolve([main, controller], [controller]);
+
+    expect(result.scanFiles).toEqual([main, controller]);
+    expect(result.affectedFiles).toEqual([controller]);
+  });
+});
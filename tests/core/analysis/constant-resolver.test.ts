@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import * as ts from 'typescript';
+import { ConstantResolver } from '../../../src/core/analysis/constant-resolver.js';
+import { LoadedSourceFile } from '../../../src/core/analysis/source-file-loader.js';
+import { loadSource } from '../../helpers/load-source.js';
+import { ExpressDiscoverer } from '../../../src/core/discovery/express-discoverer.js';
+import { NestJSDiscoverer } from '../../../src/core/discovery/nestjs-discoverer.js';
+import { KoaDiscoverer } from '../../../src/core/discovery/koa-discoverer.js';
+
+/** Resolves the first argument of every `route(...)` call in the last file */
+function resolveRoutes(files: LoadedSourceFile[]): (string | null)[] {
+  const resolver = new ConstantResolver(files);
+  const file = files[files.length - 1];
+  const results: (string | null)[] = [];
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'route'
+    ) {
+      results.push(resolver.resolveString(file.filePath, node.arguments[0]));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(file.sourceFile);
+  return results;
+}
+
+describe('ConstantResolver', () => {
+  it('folds consts, object members, enums, templates and concatenation', () => {
+    expect(
+      resolveRoutes([
+        loadSource('/project/routes.ts', [
+          "const API = '/api';",
+          "const ROUTES = { USERS: `${API}/users`, nested: { ORDERS: API + '/orders' } } as const;",
+          "enum Paths { Health = '/health' }",
+          'route(ROUTES.USERS);',
+          "route(ROUTES['nested'].ORDERS);",
+          'route(Paths.Health);',
+          "route(`${API}/v${2}`);",
+        ]),
+      ])
+    ).toEqual(['/api/users', '/api/orders', '/health', '/api/v2']);
+  });
+
+  it('follows named, namespace and CommonJS imports', () => {
+    expect(
+      resolveRoutes([
+        loadSource('/project/paths.ts', [
+          "export const PREFIX = '/v1';",
+          "export const PATHS = { orders: 'orders' };",
+        ]),
+        loadSource('/project/index.ts', ["export * from './paths.js';"]),
+        loadSource('/project/app.js', [
+          "import { PATHS } from './paths.js';",
+          "import * as all from './index.js';",
+          "const { PREFIX } = require('./paths');",
+          'route(PATHS.orders);',
+          'route(all.PREFIX);',
+          'route(PREFIX);',
+        ]),
+      ])
+    ).toEqual(['orders', '/v1', '/v1']);
+  });
+
+  it('folds CommonJS exports assigned literals, templates and objects', () => {
+    expect(
+      resolveRoutes([
+        loadSource('/project/prefix.js', ["exports.API_PREFIX = '/api';"]),
+        loadSource('/project/config.js', [
+          "module.exports = { API: '/api', ROUTES: { USERS: '/users' } };",
+        ]),
+        loadSource('/project/versions.js', [
+          "const BASE = '/base';",
+          'module.exports.V1 = `${BASE}/v1`;',
+        ]),
+        loadSource('/project/app.js', [
+          "const { API_PREFIX } = require('./prefix');",
+          "const config = require('./config');",
+          "const { ROUTES } = require('./config');",
+          "const versions = require('./versions');",
+          'route(API_PREFIX);',
+          'route(config.API + ROUTES.USERS);',
+          'route(config.ROUTES.USERS);',
+          'route(versions.V1);',
+        ]),
+      ])
+    ).toEqual(['/api', '/api/users', '/users', '/base/v1']);
+  });
+
+  it('marks unresolved segments and gives up on fully dynamic paths', () => {
+    expect(
+      resolveRoutes([
+        loadSource('/project/app.ts', [
+          'let base = getBase();',
+          'route(`${base}/users`);',
+          "route(process.env.PREFIX + '/orders');",
+          'route(base);',
+          'route(buildPath());',
+        ]),
+      ])
+    ).toEqual([':unresolved/users', ':unresolved/orders', null, null]);
+  });
+
+  it('does not see through parameters and catch bindings shadowing a const', () => {
+    expect(
+      resolveRoutes([
+        loadSource('/project/app.ts', [
+          "const path = '/admin';",
+          'function mount(router, path) { route(path); }',
+          'const mountAll = ({ path }) => route(`${path}/all`);',
+          'try { load(); } catch (path) { route(path); }',
+          'function mountAdmin(router) { route(path); }',
+        ]),
+      ])
+    ).toEqual([null, ':unresolved/all', null, '/admin']);
+  });
+});
+
+describe('route path constants in discoverers', () => {
+  it('places Express routes and counts the ones it cannot', async () => {
+    const files = [
+      loadSource('/project/app.ts', [
+        "import express from 'express';",
+        "const ROUTES = { USERS: '/users' };",
+        'const app = express();',
+        'app.get(ROUTES.USERS, listUsers);',
+        'app.post(pathFor("orders"), createOrder);',
+      ]),
+    ];
+    const discoverer = new ExpressDiscoverer();
+    await discoverer.prepare(files);
+    const endpoints = await discoverer.discover(files[0]);
+
+    expect(endpoints.map((e) => `${e.method} ${e.route}`)).toEqual(['GET /users']);
+    expect(discoverer.getDiagnostics().map((d) => [d.reason, d.skipped])).toEqual([
+      ['unresolved-path', true],
+    ]);
+  });
+
+  it('unrolls Koa routes registered with forEach over a const array', async () => {
+    const file = loadSource('/project/router.ts', [
+      "import Router from '@koa/router';",
+      "const API = '/api';",
+      'const router = new Router();',
+      'const routes = [',
+      "  { method: 'GET', path: `${API}/items`, middleware: [], handler: listItems },",
+      "  { method: 'DELETE', path: `${API}/items/:id`, middleware: [jwtAuth], handler: removeItem },",
+      '];',
+      'routes.forEach((r) => router[r.method.toLowerCase()](r.path, ...r.middleware, r.handler));',
+      'dynamicRoutes.forEach((r) => router[r.method](r.path, r.handler));',
+    ]);
+    const discoverer = new KoaDiscoverer();
+    await discoverer.prepare([file]);
+    const endpoints = await discoverer.discover(file);
+
+    expect(endpoints.map((e) => `${e.method} ${e.route} ${e.handlerName}`)).toEqual([
+      'GET /api/items listItems',
+      'DELETE /api/items/:id removeItem',
+    ]);
+    expect(endpoints[1].authorization.isAuthenticated).toBe(true);
+    expect(discoverer.getDiagnostics().map((d) => [d.location.line, d.reason])).toEqual([
+      [9, 'computed-method'],
+    ]);
+  });
+
+  it('resolves NestJS controller and method paths', async () => {
+    const files = [
+      loadSource('/project/paths.ts', [
+        "export const PATHS = { orders: 'orders' } as const;",
+        "export enum OrderRoutes { ById = ':id' }",
+      ]),
+      loadSource('/project/orders.controller.ts', [
+        "import { PATHS, OrderRoutes } from './paths.js';",
+        '@Controller(PATHS.orders)',
+        'export class OrdersController {',
+        '  @Get(OrderRoutes.ById)',
+        '  findOne() {}',
+        '  @Post(dynamicPath())',
+        '  create() {}',
+        '}',
+      ]),
+    ];
+    const discoverer = new NestJSDiscoverer();
+    await discoverer.prepare(files);
+    const endpoints = await discoverer.discover(files[1]);
+
+    expect(endpoints.map((e) => `${e.method} ${e.route}`)).toEqual([
+      'GET /orders/:id',
+      'POST /orders/:unresolved',
+    ]);
+  });
+});
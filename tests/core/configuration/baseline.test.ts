@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { BaselineLoader, BaselineMatcher } from '../../../src/core/configuration/baseline.js';
+import { createEndpoint } from '../../../src/core/models/endpoint.js';
+import { createFinding } from '../../../src/core/models/finding.js';
+import { createScanResult, getHighestSeverity, getScanSummary } from '../../../src/core/models/scan-result.js';
+import { EndpointType } from '../../../src/core/models/endpoint-type.js';
+import { HttpMethod } from '../../../src/core/models/http-method.js';
+import { Severity } from '../../../src/core/models/severity.js';
+
+function makeFinding(route: string, line = 1, severity = Severity.High, handlerName = 'handler') {
+  const location = { filePath: '/project/app.ts', line, column: 1 };
+  const endpoint = createEndpoint({
+    route,
+    method: HttpMethod.POST,
+    handlerName,
+    type: EndpointType.Express,
+    location,
+  });
+  return createFinding({
+    ruleId: 'AP004',
+    ruleName: 'Missing authentication on write operations',
+    severity,
+    message: 'message',
+    endpoint,
+    location,
+    recommendation: 'recommendation',
+  });
+}
+
+describe('baseline files', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apiposture-baseline-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('hides known findings and reports only new ones', async () => {
+    const baselinePath = path.join(tmpDir, '.apiposture-baseline.json');
+    const loader = new BaselineLoader();
+    await loader.write(baselinePath, [makeFinding('/users/:id', 3, Severity.Critical)]);
+
+    const matcher = new BaselineMatcher(await loader.load(baselinePath));
+    const findings = matcher.applyBaselineToFindings([
+      makeFinding('/users/:userId', 7, Severity.Critical),
+      makeFinding('/orders', 9, Severity.Medium),
+    ]);
+
+    expect(findings.map((f) => f.baselined)).toEqual([true, false]);
+
+    const result = createScanResult({ projectPath: tmpDir, findings });
+    expect(getHighestSeverity(result)).toBe(Severity.Medium);
+    expect(getScanSummary(result)).toMatchObject({
+      totalFindings: 1,
+      baselinedFindings: 1,
+      suppressedFindings: 0,
+    });
+  });
+
+  it('leaves suppressed findings out of the snapshot', async () => {
+    const baselinePath = path.join(tmpDir, 'baseline.json');
+    const suppressed = { ...makeFinding('/health'), suppressed: true, suppressionReason: 'probe' };
+
+    const baseline = await new BaselineLoader().write(baselinePath, [suppressed, makeFinding('/orders')]);
+    expect(baseline.findings.map((f) => f.route)).toEqual(['/orders']);
+  });
+
+  it('rejects files that are not baselines', async () => {
+    const baselinePath = path.join(tmpDir, 'baseline.json');
+    fs.writeFileSync(baselinePath, JSON.stringify({ findings: [] }));
+
+    await expect(new BaselineLoader().load(baselinePath)).rejects.toThrow(/Unsupported baseline/);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigLoader } from '../../../src/core/configuration/config-loader.js';
+
+describe('ConfigLoader', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apiposture-config-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(dir: string, config: unknown, fileName = '.apiposture.json'): string {
+    const filePath = path.join(dir, fileName);
+    fs.writeFileSync(filePath, JSON.stringify(config), 'utf-8');
+    return filePath;
+  }
+
+  it('discovers the config file from the given project root', async () => {
+    writeConfig(tmpDir, { output: { format: 'json' } });
+
+    const config = await new ConfigLoader().load(undefined, tmpDir);
+    expect(config.output?.format).toBe('json');
+  });
+
+  it('walks up from nested project directories', async () => {
+    writeConfig(tmpDir, { rules: { AP001: { enabled: false } } });
+    const nested = path.join(tmpDir, 'services', 'api');
+    fs.mkdirSync(nested, { recursive: true });
+
+    const config = await new ConfigLoader().load(undefined, nested);
+    expect(config.rules?.AP001.enabled).toBe(false);
+  });
+
+  it('prefers an explicit config path over discovery', async () => {
+    writeConfig(tmpDir, { output: { format: 'json' } });
+    const explicit = writeConfig(tmpDir, { output: { format: 'markdown' } }, 'custom.json');
+
+    const config = await new ConfigLoader().load(explicit, tmpDir);
+    expect(config.output?.format).toBe('markdown');
+  });
+
+  it('throws when an explicit config path cannot be loaded', async () => {
+    await expect(
+      new ConfigLoader().load(path.join(tmpDir, 'missing.json'), tmpDir)
+    ).rejects.toThrow(/Failed to load config/);
+  });
+
+  it('drops suppressions without a reason and invalid output formats', async () => {
+    writeConfig(tmpDir, {
+      output: { format: 'html' },
+      suppressions: [{ ruleId: 'AP001' }, { ruleId: 'AP002', reason: 'ok' }],
+    });
+
+    const config = await new ConfigLoader().load(undefined, tmpDir);
+    expect(config.output?.format).toBeUndefined();
+    expect(config.suppressions).toHaveLength(1);
+    expect(config.suppressions?.[0].ruleId).toBe('AP002');
+  });
+
+  it('drops NestJS guard overrides with an unknown kind', async () => {
+    writeConfig(tmpDir, {
+      nestjs: { guards: { TenantGuard: 'Authentication', RolesGuard: 'admin' } },
+    });
+
+    const config = await new ConfigLoader().load(undefined, tmpDir);
+    expect(config.nestjs?.guards).toEqual({ TenantGuard: 'authentication' });
+  });
+});
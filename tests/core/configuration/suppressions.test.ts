@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as ts from 'typescript';
+import { InlineSuppressionParser } from '../../../src/core/configuration/inline-suppression-parser.js';
+import { SuppressionMatcher } from '../../../src/core/configuration/suppression-matcher.js';
+import { createEndpoint } from '../../../src/core/models/endpoint.js';
+import { createFinding } from '../../../src/core/models/finding.js';
+import { EndpointType } from '../../../src/core/models/endpoint-type.js';
+import { HttpMethod } from '../../../src/core/models/http-method.js';
+import { Severity } from '../../../src/core/models/severity.js';
+
+function loadSource(content: string, filePath = '/project/app.ts') {
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  return { filePath, sourceFile, content };
+}
+
+function makeFinding(route: string, line: number, ruleId = 'AP001') {
+  const location = { filePath: '/project/app.ts', line, column: 1 };
+  const endpoint = createEndpoint({
+    route,
+    method: HttpMethod.GET,
+    type: EndpointType.Express,
+    location,
+  });
+  return createFinding({
+    ruleId,
+    ruleName: 'Rule',
+    severity: Severity.High,
+    message: 'message',
+    endpoint,
+    location,
+    recommendation: 'recommendation',
+  });
+}
+
+describe('InlineSuppressionParser', () => {
+  const parser = new InlineSuppressionParser();
+
+  it('attaches a comment to the Express route on the next line', () => {
+    const file = loadSource(
+      [
+        "import express from 'express';",
+        'const app = express();',
+        '// apiposture-ignore AP001: health probe',
+        "app.get('/health', handler);",
+      ].join('\n')
+    );
+
+    const suppressions = parser.parse(file);
+    expect(suppressions).toHaveLength(1);
+    expect(suppressions[0].ruleIds).toEqual(['AP001']);
+    expect(suppressions[0].reason).toBe('health probe');
+    expect(suppressions[0].location.line).toBe(4);
+  });
+
+  it('attaches comments above or between decorators to the NestJS method', () => {
+    const file = loadSource(
+      [
+        '@Controller()',
+        'class StatusController {',
+        '  // apiposture-ignore AP001, AP008: load balancer probe',
+        "  @Get('status')",
+        '  status() {}',
+        '',
+        "  @Get('ping')",
+        '  /* apiposture-ignore AP001: uptime monitor */',
+        '  ping() {}',
+        '}',
+      ].join('\n')
+    );
+
+    const suppressions = parser.parse(file);
+    expect(suppressions.map((s) => s.location.line)).toEqual([4, 7]);
+    expect(suppressions[0].ruleIds).toEqual(['AP001', 'AP008']);
+  });
+
+  it('skips directives without a reason', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const file = loadSource(["// apiposture-ignore AP001", "app.get('/x', handler);"].join('\n'));
+
+    expect(parser.parse(file)).toHaveLength(0);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('missing required reason'));
+    warn.mockRestore();
+  });
+});
+
+describe('SuppressionMatcher', () => {
+  it('suppresses findings by inline comments for the listed rules only', () => {
+    const file = loadSource(["// apiposture-ignore AP001: probe", "app.get('/x', handler);"].join('\n'));
+    const matcher = new SuppressionMatcher([], new InlineSuppressionParser().parse(file));
+
+    const [ap001, ap008] = matcher.applySuppressionsToFindings([
+      makeFinding('/x', 2, 'AP001'),
+      makeFinding('/x', 2, 'AP008'),
+    ]);
+
+    expect(ap001.suppressed).toBe(true);
+    expect(ap001.suppressionSource).toBe('inline');
+    expect(ap001.suppressionReason).toBe('probe');
+    expect(ap008.suppressed).toBe(false);
+  });
+
+  it('suppresses findings by config route patterns', () => {
+    const matcher = new SuppressionMatcher([
+      { ruleId: 'AP001', routePattern: '/api/public/*', reason: 'public API' },
+    ]);
+
+    const [matched, unmatched] = matcher.applySuppressionsToFindings([
+      makeFinding('/api/public/docs', 1),
+      makeFinding('/api/private/docs', 1),
+    ]);
+
+    expect(matched.suppressed).toBe(true);
+    expect(matched.suppressionSource).toBe('config');
+    expect(unmatched.suppressed).toBe(false);
+  });
+});
+
+describe('SuppressionMatcher expiry and stale reporting', () => {
+  const now = new Date('2026-06-15T12:00:00Z');
+
+  it('re-activates findings once a suppression has expired', () => {
+    const matcher = new SuppressionMatcher(
+      [{ ruleId: 'AP001', route: '/x', reason: 'temporary', expires: '2026-06-14' }],
+      [],
+      { now }
+    );
+
+    const [finding] = matcher.applySuppressionsToFindings([makeFinding('/x', 1)]);
+    expect(finding.suppressed).toBe(false);
+    expect(matcher.getStaleSuppressions()).toMatchObject([
+      { status: 'expired', source: 'config', expires: '2026-06-14' },
+    ]);
+  });
+
+  it('keeps date-only suppressions valid through their expiry day', () => {
+    const matcher = new SuppressionMatcher(
+      [{ ruleId: 'AP001', route: '/x', reason: 'temporary', expires: '2026-06-15' }],
+      [],
+      { now }
+    );
+
+    const [finding] = matcher.applySuppressionsToFindings([makeFinding('/x', 1)]);
+    expect(finding.suppressed).toBe(true);
+    expect(matcher.getStaleSuppressions()).toHaveLength(0);
+  });
+
+  it('reports config and inline suppressions that matched nothing', () => {
+    const file = loadSource(["// apiposture-ignore AP002: legacy", "app.post('/y', handler);"].join('\n'));
+    const matcher = new SuppressionMatcher(
+      [
+        { ruleId: 'AP001', route: '/x', reason: 'used' },
+        { ruleId: 'AP001', route: '/gone', reason: 'dead', owner: 'payments', ticket: 'SEC-12' },
+      ],
+      new InlineSuppressionParser().parse(file),
+      { now }
+    );
+
+    matcher.applySuppressionsToFindings([makeFinding('/x', 1)]);
+    const stale = matcher.getStaleSuppressions();
+
+    expect(stale).toHaveLength(2);
+    expect(stale[0]).toMatchObject({ status: 'unused', source: 'config', route: '/gone', owner: 'payments', ticket: 'SEC-12' });
+    expect(stale[1]).toMatchObject({ status: 'unused', source: 'inline', ruleIds: ['AP002'] });
+  });
+
+  it('only judges suppressions inside a change scope as unused', () => {
+    const context = loadSource(["// apiposture-ignore AP001: probe", "app.get('/status', handler);"].join('\n'));
+    const { endpoint } = makeFinding('/users', 1);
+    const matcher = new SuppressionMatcher(
+      [
+        { ruleId: 'AP001', route: '/status', reason: 'outside the change' },
+        { ruleId: 'AP001', route: '/users', reason: 'no longer needed' },
+        { ruleId: 'AP001', route: '/old', reason: 'expired', expires: '2026-01-01' },
+      ],
+      new InlineSuppressionParser().parse(context),
+      { now, scope: { endpoints: [endpoint], files: ['/project/users.ts'] } }
+    );
+
+    matcher.applySuppressionsToFindings([]);
+
+    expect(matcher.getStaleSuppressions()).toMatchObject([
+      { status: 'unused', source: 'config', route: '/users' },
+      { status: 'expired', source: 'config', route: '/old' },
+    ]);
+  });
+});
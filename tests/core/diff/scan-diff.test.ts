@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ScanSnapshot,
+  SnapshotEndpoint,
+  computeScanDiff,
+  hasWeakenedEndpoints,
+  isEmptyDiff,
+  snapshotFromJson,
+} from '../../../src/core/diff/scan-diff.js';
+import { SecurityClassification } from '../../../src/core/models/security-classification.js';
+import { Severity } from '../../../src/core/models/severity.js';
+
+function endpoint(
+  route: string,
+  method: string,
+  classification: SecurityClassification,
+  roles: string[] = []
+): SnapshotEndpoint {
+  return {
+    route,
+    method,
+    handler: 'handler',
+    framework: 'express',
+    transport: 'http',
+    classification,
+    roles,
+    policies: [],
+    file: 'src/app.ts',
+    line: 1,
+  };
+}
+
+function snapshot(label: string, endpoints: SnapshotEndpoint[], fingerprints: string[] = []): ScanSnapshot {
+  return {
+    label,
+    endpoints,
+    findings: fingerprints.map((fingerprint) => ({
+      fingerprint,
+      ruleId: 'AP004',
+      ruleName: 'Missing authentication on write operations',
+      severity: Severity.Critical,
+      message: 'message',
+      route: '/orders',
+      method: 'POST',
+    })),
+  };
+}
+
+describe('computeScanDiff', () => {
+  it('reports added and removed endpoints and finding churn', () => {
+    const diff = computeScanDiff(
+      snapshot('main', [endpoint('/legacy', 'GET', SecurityClassification.Public)], ['a', 'b']),
+      snapshot('feature', [endpoint('/orders', 'POST', SecurityClassification.Authenticated)], ['b', 'c'])
+    );
+
+    expect(diff.addedEndpoints.map((e) => e.route)).toEqual(['/orders']);
+    expect(diff.removedEndpoints.map((e) => e.route)).toEqual(['/legacy']);
+    expect(diff.newFindings.map((f) => f.fingerprint)).toEqual(['c']);
+    expect(diff.resolvedFindings.map((f) => f.fingerprint)).toEqual(['a']);
+  });
+
+  it('detects weakened classification and role changes on the same route', () => {
+    const diff = computeScanDiff(
+      snapshot('main', [
+        endpoint('/users/:id', 'DELETE', SecurityClassification.RoleRestricted, ['admin']),
+        endpoint('/reports', 'GET', SecurityClassification.RoleRestricted, ['admin']),
+      ]),
+      snapshot('feature', [
+        endpoint('/users/:userId', 'DELETE', SecurityClassification.Authenticated),
+        endpoint('/reports', 'GET', SecurityClassification.RoleRestricted, ['admin', 'auditor']),
+      ])
+    );
+
+    expect(diff.addedEndpoints).toHaveLength(0);
+    expect(diff.classificationChanges).toMatchObject([
+      {
+        previous: SecurityClassification.RoleRestricted,
+        current: SecurityClassification.Authenticated,
+        direction: 'weakened',
+      },
+    ]);
+    expect(hasWeakenedEndpoints(diff)).toBe(true);
+    expect(diff.accessChanges.map((c) => [c.endpoint.route, c.addedRoles, c.removedRoles])).toEqual([
+      ['/reports', ['auditor'], []],
+      ['/users/:userId', [], ['admin']],
+    ]);
+  });
+
+  it('is empty when nothing changed', () => {
+    const endpoints = [endpoint('/orders', 'POST', SecurityClassification.Authenticated)];
+    expect(isEmptyDiff(computeScanDiff(snapshot('a', endpoints, ['x']), snapshot('b', endpoints, ['x'])))).toBe(true);
+  });
+
+  it('keeps endpoints of other frameworks and transports on the same route apart', () => {
+    const http = endpoint('/orders', 'MESSAGE', SecurityClassification.Authenticated);
+    const fastify = { ...http, framework: 'fastify', classification: SecurityClassification.Public };
+    const websocket = { ...http, transport: 'websocket', classification: SecurityClassification.Public };
+
+    const diff = computeScanDiff(
+      snapshot('base', [http, fastify, websocket]),
+      snapshot('head', [websocket, fastify, http])
+    );
+
+    expect(isEmptyDiff(diff)).toBe(true);
+
+    const removed = computeScanDiff(snapshot('base', [http, fastify, websocket]), snapshot('head', [http]));
+    expect(removed.removedEndpoints).toEqual([fastify, websocket]);
+    expect(removed.classificationChanges).toEqual([]);
+  });
+});
+
+describe('snapshotFromJson', () => {
+  it('reads JSON scan reports and makes file paths project-relative', () => {
+    const result = snapshotFromJson(
+      {
+        scanInfo: { projectPath: '/repo' },
+        endpoints: [
+          {
+            route: '/orders',
+            method: 'POST',
+            framework: 'express',
+            location: { file: '/repo/src/orders.ts', line: 12 },
+            authorization: { classification: 'public', roles: [], policies: [] },
+          },
+        ],
+        findings: [
+          {
+            ruleId: 'AP004',
+            ruleName: 'Missing authentication on write operations',
+            severity: 'critical',
+            message: 'message',
+            endpoint: { route: '/orders', method: 'POST' },
+          },
+        ],
+      },
+      'base.json'
+    );
+
+    expect(result.endpoints[0]).toMatchObject({ file: 'src/orders.ts', line: 12 });
+    expect(result.findings[0].fingerprint).toBe('AP004 POST /orders');
+  });
+
+  it('rejects documents that are not scan reports', () => {
+    expect(() => snapshotFromJson({ version: 1 }, 'baseline.json')).toThrow(/not an ApiPosture JSON/);
+  });
+});
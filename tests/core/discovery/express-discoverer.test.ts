@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import { ExpressDiscoverer } from '../../../src/core/discovery/express-discoverer.js';
+import { LoadedSourceFile } from '../../../src/core/analysis/source-file-loader.js';
+import { loadSource } from '../../helpers/load-source.js';
+import { Endpoint } from '../../../src/core/models/endpoint.js';
+import { SecurityClassification } from '../../../src/core/models/security-classification.js';
+
+async function discoverAll(files: LoadedSourceFile[]): Promise<Endpoint[]> {
+  const discoverer = new ExpressDiscoverer();
+  await discoverer.prepare(files);
+  const endpoints: Endpoint[] = [];
+  for (const file of files) {
+    endpoints.push(...(await discoverer.discover(file)));
+  }
+  return endpoints;
+}
+
+describe('ExpressDiscoverer cross-file router mounts', () => {
+  const files = [
+    loadSource('/project/src/app.ts', [
+      "import express from 'express';",
+      "import usersRouter from './routes/users.js';",
+      "import * as routes from './routes/index.js';",
+      'const app = express();',
+      "app.use('/api/users', requireAuth, usersRouter);",
+      "app.use('/api/orders', routes.orders);",
+    ]),
+    loadSource('/project/src/routes/users.ts', [
+      "import express from 'express';",
+      "const adminRouter = require('./admin');",
+      'const router = express.Router();',
+      "router.get('/', listUsers);",
+      "router.use('/admin', requireRole('admin'), adminRouter);",
+      'export default router;',
+    ]),
+    loadSource('/project/src/routes/admin.js', [
+      "const router = require('express').Router();",
+      "router.delete('/:id', deleteUser);",
+      'module.exports = router;',
+    ]),
+    loadSource('/project/src/routes/index.ts', [
+      "export { default as orders } from './orders.js';",
+    ]),
+    loadSource('/project/src/routes/orders.ts', [
+      "import { Router } from 'express';",
+      'const orders = Router();',
+      "orders.post('/', createOrder);",
+      'export default orders;',
+    ]),
+  ];
+
+  it('applies prefixes and mount middlewares from the mounting file', async () => {
+    const endpoints = await discoverAll(files);
+    const byRoute = new Map(endpoints.map((e) => [`${e.method} ${e.route}`, e]));
+
+    expect([...byRoute.keys()].sort()).toEqual([
+      'DELETE /api/users/admin/:id',
+      'GET /api/users',
+      'POST /api/orders',
+    ]);
+
+    const listUsers = byRoute.get('GET /api/users')!;
+    expect(listUsers.authorization.middlewareChain).toContain('requireAuth');
+    expect(listUsers.authorization.classification).toBe(SecurityClassification.Authenticated);
+
+    const deleteUser = byRoute.get('DELETE /api/users/admin/:id')!;
+    expect(deleteUser.authorization.middlewareChain).toEqual(
+      expect.arrayContaining(['requireAuth', 'requireRole'])
+    );
+
+    const createOrder = byRoute.get('POST /api/orders')!;
+    expect(createOrder.authorization.classification).toBe(SecurityClassification.Public);
+  });
+
+  it('reports a router once per prefix it is mounted under', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/app.ts', [
+        "import health from './health.js';",
+        'const app = express();',
+        "app.use('/v1', health);",
+        "app.use('/v2', health);",
+      ]),
+      loadSource('/project/health.ts', [
+        'const health = express.Router();',
+        "health.get('/health', check);",
+        'export default health;',
+      ]),
+    ]);
+
+    expect(endpoints.map((e) => e.route).sort()).toEqual(['/v1/health', '/v2/health']);
+  });
+});
+
+describe('ExpressDiscoverer router-wide middleware', () => {
+  it('applies use(middleware) only to routes and mounts registered after it', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/app.ts', [
+        "import reports from './reports.js';",
+        'const app = express();',
+        "app.get('/health', health);",
+        "app.use(passport.authenticate('jwt'));",
+        "app.get('/me', profile);",
+        "app.use('/reports', reports);",
+      ]),
+      loadSource('/project/reports.ts', [
+        'const router = express.Router();',
+        "router.get('/public', summary);",
+        'router.use(requireRole);',
+        "router.delete('/:id', removeReport);",
+        'export default router;',
+      ]),
+    ]);
+    const byRoute = new Map(endpoints.map((e) => [`${e.method} ${e.route}`, e.authorization]));
+
+    expect(byRoute.get('GET /health')!.classification).toBe(SecurityClassification.Public);
+    expect(byRoute.get('GET /me')!.classification).toBe(SecurityClassification.Authenticated);
+
+    const summary = byRoute.get('GET /reports/public')!;
+    expect(summary.middlewareChain).toContain('passport.authenticate');
+    expect(summary.middlewareChain).not.toContain('requireRole');
+
+    expect(byRoute.get('DELETE /reports/:id')!.middlewareChain).toEqual(
+      expect.arrayContaining(['passport.authenticate', 'requireRole'])
+    );
+  });
+});
+
+describe('ExpressDiscoverer route chains', () => {
+  it('discovers each verb of router.route() with its own middlewares', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/orders.ts', [
+        'const router = express.Router();',
+        'router',
+        "  .route('/orders/:id')",
+        '  .all(loadOrder)',
+        '  .get(requireAuth, show)',
+        "  .put(requireAuth, requireRole('admin'), update)",
+        '  .delete(remove);',
+      ]),
+    ]);
+
+    const byMethod = new Map(endpoints.map((e) => [e.method, e]));
+
+    expect(endpoints.map((e) => `${e.method} ${e.route} ${e.handlerName}`).sort()).toEqual([
+      'DELETE /orders/:id remove',
+      'GET /orders/:id show',
+      'PUT /orders/:id update',
+    ]);
+    expect(byMethod.get('GET')!.authorization.middlewareChain).toEqual(['loadOrder', 'requireAuth']);
+    expect(byMethod.get('PUT')!.authorization.middlewareChain).toEqual([
+      'loadOrder',
+      'requireAuth',
+      'requireRole',
+    ]);
+    expect(byMethod.get('DELETE')!.authorization.middlewareChain).toEqual(['loadOrder', 'remove']);
+  });
+});
+
+describe('ExpressDiscoverer diagnostics', () => {
+  it('reports registrations it cannot fully resolve', async () => {
+    const file = loadSource('/project/app.ts', [
+      "import express from 'express';",
+      'const app = express();',
+      "for (const method of methods) app[method]('/items', handler);",
+      "app.get(`${process.env.BASE}/status`, status);",
+      "app.post('/orders', ...orderMiddlewares, createOrder);",
+      "app['delete']('/orders/:id', requireAuth, removeOrder);",
+    ]);
+    const discoverer = new ExpressDiscoverer();
+    await discoverer.prepare([file]);
+    const endpoints = await discoverer.discover(file);
+
+    expect(endpoints.map((e) => `${e.method} ${e.route}`).sort()).toEqual([
+      'DELETE /orders/:id',
+      'GET /:unresolved/status',
+      'POST /orders',
+    ]);
+    expect(
+      discoverer.getDiagnostics().map((d) => `${d.location.line} ${d.reason} ${d.skipped}`)
+    ).toEqual([
+      '3 computed-method true',
+      '4 unresolved-path false',
+      '5 dynamic-handlers false',
+    ]);
+  });
+
+  it('keeps the middleware of a mount whose prefix it cannot resolve', async () => {
+    const files = [
+      loadSource('/project/app.ts', [
+        "import express from 'express';",
+        "import users from './users.js';",
+        'const app = express();',
+        'app.use(cors());',
+        'app.use(getPrefix(), requireAuth, users);',
+      ]),
+      loadSource('/project/users.ts', [
+        "import { Router } from 'express';",
+        'const router = Router();',
+        "router.get('/users/:id', getUser);",
+        'export default router;',
+      ]),
+    ];
+    const discoverer = new ExpressDiscoverer();
+    await discoverer.prepare(files);
+    const [endpoint] = await discoverer.discover(files[1]);
+
+    expect(endpoint.route).toBe('/:unresolved/users/:id');
+    expect(endpoint.authorization.isAuthenticated).toBe(true);
+    expect(
+      discoverer.getDiagnostics().map((d) => `${d.location.filePath}:${d.location.line} ${d.reason} ${d.skipped}`)
+    ).toEqual(['/project/app.ts:5 unresolved-path false']);
+  });
+});
+
+describe('ExpressDiscoverer route loops', () => {
+  it('registers one route per element of a static route array', async () => {
+    const files = [
+      loadSource('/project/routes.ts', [
+        'export const routes = [',
+        "  { method: 'get', path: '/users', handler: listUsers },",
+        "  { method: 'post', path: '/users', middleware: [requireAuth, validate], handler: createUser },",
+        '] as const;',
+      ]),
+      loadSource('/project/app.ts', [
+        "import express from 'express';",
+        "import { routes } from './routes.js';",
+        'const router = express.Router();',
+        'for (const { method, path, middleware = [], handler } of routes) {',
+        '  router[method](path, ...middleware, handler);',
+        '}',
+      ]),
+    ];
+    const discoverer = new ExpressDiscoverer();
+    await discoverer.prepare(files);
+    const endpoints = await discoverer.discover(files[1]);
+
+    expect(endpoints.map((e) => `${e.method} ${e.route} ${e.handlerName}`)).toEqual([
+      'GET /users listUsers',
+      'POST /users createUser',
+    ]);
+    expect(endpoints[1].authorization.middlewareChain).toEqual(['requireAuth', 'validate']);
+    expect(discoverer.getDiagnostics()).toEqual([]);
+  });
+});
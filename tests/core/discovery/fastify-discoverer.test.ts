@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { FastifyDiscoverer } from '../../../src/core/discovery/fastify-discoverer.js';
+import { LoadedSourceFile } from '../../../src/core/analysis/source-file-loader.js';
+import { loadSource } from '../../helpers/load-source.js';
+import { Endpoint } from '../../../src/core/models/endpoint.js';
+
+async function discoverAll(files: LoadedSourceFile[]): Promise<Endpoint[]> {
+  const discoverer = new FastifyDiscoverer();
+  await discoverer.prepare(files);
+  const endpoints: Endpoint[] = [];
+  for (const file of files) {
+    endpoints.push(...(await discoverer.discover(file)));
+  }
+  return endpoints;
+}
+
+describe('FastifyDiscoverer plugin scopes', () => {
+  it('composes register prefixes and applies scoped hooks to child plugins', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/auth.ts', [
+        "import fp from 'fastify-plugin';",
+        'export default fp(async (fastify) => {',
+        "  fastify.addHook('onRequest', fastify.authenticate);",
+        '});',
+      ]),
+      loadSource('/project/users.ts', [
+        'export default async function users(fastify) {',
+        "  fastify.get('/:id', getUser);",
+        '}',
+      ]),
+      loadSource('/project/app.ts', [
+        "import Fastify from 'fastify';",
+        "import auth from './auth.js';",
+        "import users from './users.js';",
+        'const app = Fastify();',
+        "app.get('/health', health);",
+        'app.register(async (api) => {',
+        "  api.get('/status', status);",
+        '  api.register(async (secured) => {',
+        '    secured.register(auth);',
+        "    secured.register(users, { prefix: '/users' });",
+        '  });',
+        "}, { prefix: '/api' });",
+      ]),
+    ]);
+
+    expect(
+      endpoints.map((e) => [`${e.method} ${e.route}`, e.authorization.isAuthenticated])
+    ).toEqual([
+      ['GET /api/users/:id', true],
+      ['GET /health', false],
+      ['GET /api/status', false],
+    ]);
+    expect(endpoints[0].authorization.guardNames).toEqual(['fastify.authenticate']);
+  });
+
+  it('treats a const alias of an instance as the same scope', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/server.ts', [
+        "import Fastify from 'fastify';",
+        "import fp from 'fastify-plugin';",
+        'const server = Fastify();',
+        'server.register(fp(async (root) => {',
+        "  root.addHook('onRequest', root.authenticate);",
+        '}));',
+        'const ctx = server;',
+        "ctx.register(async (child) => { child.get('/named', named); }, { prefix: '/n' });",
+      ]),
+    ]);
+
+    expect(
+      endpoints.map((e) => [`${e.method} ${e.route}`, e.authorization.isAuthenticated])
+    ).toEqual([['GET /n/named', true]]);
+  });
+});
+
+describe('FastifyDiscoverer diagnostics', () => {
+  it('reports a register() prefix it cannot resolve where it is registered', async () => {
+    const files = [
+      loadSource('/project/app.ts', [
+        "import Fastify from 'fastify';",
+        "import routes from './routes.js';",
+        'const app = Fastify();',
+        'app.register(routes, { prefix: getPrefix() });',
+      ]),
+      loadSource('/project/routes.ts', [
+        'export default async function routes(fastify) {',
+        "  fastify.get('/items', listItems);",
+        '}',
+      ]),
+    ];
+    const discoverer = new FastifyDiscoverer();
+    await discoverer.prepare(files);
+    const endpoints = [];
+    for (const file of files) {
+      endpoints.push(...(await discoverer.discover(file)));
+    }
+
+    expect(endpoints.map((e) => e.route)).toEqual(['/:unresolved/items']);
+    expect(
+      discoverer.getDiagnostics().map((d) => `${d.location.filePath}:${d.location.line} ${d.reason} ${d.skipped}`)
+    ).toEqual(['/project/app.ts:4 unresolved-path false']);
+  });
+});
+
+describe('FastifyDiscoverer route options', () => {
+  it('reads hooks and public markers from shorthand and route() options alike', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/app.ts', [
+        "import Fastify from 'fastify';",
+        'const app = Fastify();',
+        "app.get('/me', { preValidation: [app.authenticate] }, me);",
+        "app.route({ method: 'POST', url: '/orders', preParsing: verifyJwt, handler: createOrder });",
+        "app.get('/report', { preSerialization: [authRedact] }, report);",
+        "app.get('/health', { config: { public: true } }, health);",
+        "app.route({ method: 'POST', url: '/signup', schema: { security: [] }, handler: signup });",
+      ]),
+    ]);
+
+    expect(
+      endpoints.map((e) => [
+        `${e.method} ${e.route}`,
+        e.authorization.isAuthenticated,
+        e.authorization.isExplicitlyPublic,
+      ])
+    ).toEqual([
+      ['GET /me', true, false],
+      ['POST /orders', true, false],
+      ['GET /report', false, false],
+      ['GET /health', false, true],
+      ['POST /signup', false, true],
+    ]);
+    // Runs after the handler: part of the chain, but can't reject the request
+    expect(endpoints[2].authorization.middlewareChain).toEqual(['authRedact']);
+  });
+});
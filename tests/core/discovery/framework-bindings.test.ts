@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { ExpressDiscoverer } from '../../../src/core/discovery/express-discoverer.js';
+import { KoaDiscoverer } from '../../../src/core/discovery/koa-discoverer.js';
+import { FastifyDiscoverer } from '../../../src/core/discovery/fastify-discoverer.js';
+import { EndpointDiscoverer } from '../../../src/core/discovery/discoverer-interface.js';
+import { LoadedSourceFile } from '../../../src/core/analysis/source-file-loader.js';
+import { loadSource } from '../../helpers/load-source.js';
+
+/** Runs every discoverer like ProjectAnalyzer does; returns `framework METHOD route` strings */
+async function discoverAll(files: LoadedSourceFile[]): Promise<string[]> {
+  const discoverers: EndpointDiscoverer[] = [
+    new ExpressDiscoverer(),
+    new KoaDiscoverer(),
+    new FastifyDiscoverer(),
+  ];
+  const endpoints: string[] = [];
+  for (const discoverer of discoverers) {
+    await discoverer.prepare?.(files);
+    for (const file of files) {
+      for (const endpoint of await discoverer.discover(file)) {
+        endpoints.push(`${endpoint.type} ${endpoint.method} ${endpoint.route}`);
+      }
+    }
+  }
+  return endpoints.sort();
+}
+
+describe('framework attribution by initializer and imports', () => {
+  it('finds Express routers regardless of their variable names', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/api.ts', [
+        "import express, { Router } from 'express';",
+        "import { Mapper } from './mapper.js';",
+        'const api = express.Router();',
+        'const v1 = Router();',
+        'const mapper = new Mapper();',
+        "api.get('/users', listUsers);",
+        "v1.post('/orders', createOrder);",
+        "mapper.get('id');",
+      ]),
+    ]);
+
+    expect(endpoints).toEqual(['express GET /users', 'express POST /orders']);
+  });
+
+  it('does not take built-in collections for routers by their names', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/cache.ts', [
+        "import express from 'express';",
+        'const app = express();',
+        'const cacheRouter = new Map();',
+        'const settingsApp = new URLSearchParams(query);',
+        "cacheRouter.get('/x', fn);",
+        "settingsApp.get('/y', fn);",
+        "app.get('/z', handler);",
+      ]),
+    ]);
+
+    expect(endpoints).toEqual(['express GET /z']);
+  });
+
+  it('attributes each app and router to the framework it was created with', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/koa.ts', [
+        "import Router from '@koa/router';",
+        'const koaRouter = new Router();',
+        "koaRouter.get('/items', listItems);",
+      ]),
+      loadSource('/project/fastify.ts', [
+        "import Fastify from 'fastify';",
+        'const app = Fastify();',
+        "app.get('/health', health);",
+        "app.register(async (instance) => { instance.post('/jobs', createJob); });",
+      ]),
+      loadSource('/project/express.js', [
+        "const app = require('express')();",
+        "app.delete('/sessions', logout);",
+      ]),
+    ]);
+
+    expect(endpoints).toEqual([
+      'express DELETE /sessions',
+      'fastify GET /health',
+      'fastify POST /jobs',
+      'koa GET /items',
+    ]);
+  });
+
+  it('follows routers imported from other files', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/router.ts', [
+        "import Router from 'koa-router';",
+        'export const router = new Router();',
+      ]),
+      loadSource('/project/routes.ts', [
+        "import { router } from './router.js';",
+        "router.put('/profile', updateProfile);",
+      ]),
+    ]);
+
+    expect(endpoints).toEqual(['koa PUT /profile']);
+  });
+});
@@ -0,0 +1,474 @@
+import { describe, it, expect } from 'vitest';
+import {
+  NestJSDiscoverer,
+  NestJSDiscovererOptions,
+} from '../../../src/core/discovery/nestjs-discoverer.js';
+import { LoadedSourceFile } from '../../../src/core/analysis/source-file-loader.js';
+import { loadSource } from '../../helpers/load-source.js';
+import { Endpoint } from '../../../src/core/models/endpoint.js';
+import { GuardKind } from '../../../src/core/models/guard-kind.js';
+import { isWriteMethod } from '../../../src/core/models/http-method.js';
+
+async function discoverAll(
+  files: LoadedSourceFile[],
+  options?: NestJSDiscovererOptions
+): Promise<Endpoint[]> {
+  const discoverer = new NestJSDiscoverer(options);
+  await discoverer.prepare(files);
+  const endpoints: Endpoint[] = [];
+  for (const file of files) {
+    endpoints.push(...(await discoverer.discover(file)));
+  }
+  return endpoints;
+}
+
+describe('NestJSDiscoverer global guards', () => {
+  it('protects routes with APP_GUARD providers unless they are @Public()', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/app.module.ts', [
+        "import { APP_GUARD } from '@nestjs/core';",
+        '@Module({',
+        '  controllers: [UsersController],',
+        '  providers: [',
+        '    { provide: APP_GUARD, useClass: ThrottlerGuard },',
+        '    { provide: APP_GUARD, useClass: JwtAuthGuard },',
+        '  ],',
+        '})',
+        'export class AppModule {}',
+      ]),
+      loadSource('/project/users.controller.ts', [
+        "@Controller('users')",
+        'export class UsersController {',
+        '  @Get()',
+        '  list() {}',
+        '  @Public()',
+        "  @Post('signup')",
+        '  signup() {}',
+        '}',
+      ]),
+    ]);
+
+    const [list, signup] = endpoints;
+    expect(list.authorization).toMatchObject({
+      isAuthenticated: true,
+      isExplicitlyPublic: false,
+      guardNames: ['JwtAuthGuard'],
+      classification: 'authenticated',
+    });
+    expect(signup.authorization).toMatchObject({
+      isAuthenticated: false,
+      isExplicitlyPublic: true,
+      guardNames: [],
+      classification: 'public',
+    });
+  });
+
+  it('reads guards passed to app.useGlobalGuards()', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/main.ts', [
+        'const app = await NestFactory.create(AppModule);',
+        'app.useGlobalGuards(new JwtAuthGuard(app.get(Reflector)));',
+      ]),
+      loadSource('/project/health.controller.ts', [
+        "@Controller('health')",
+        '@Public()',
+        'export class HealthController {',
+        '  @Get()',
+        '  check() {}',
+        '}',
+      ]),
+      loadSource('/project/orders.controller.ts', [
+        "@Controller('orders')",
+        'export class OrdersController {',
+        "  @Delete(':id')",
+        '  remove() {}',
+        '}',
+      ]),
+    ]);
+
+    expect(endpoints.map((e) => [e.route, e.authorization.classification])).toEqual([
+      ['/health', 'public'],
+      ['/orders/:id', 'authenticated'],
+    ]);
+  });
+});
+
+describe('NestJSDiscoverer route prefixes', () => {
+  it('applies the global prefix, RouterModule paths and URI versions', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/main.ts', [
+        "const API_PREFIX = 'api';",
+        'app.setGlobalPrefix(API_PREFIX, {',
+        "  exclude: ['health', { path: 'admin/reports/(.*)', method: RequestMethod.GET }],",
+        '});',
+        "app.enableVersioning({ type: VersioningType.URI, defaultVersion: '1' });",
+      ]),
+      loadSource('/project/app.module.ts', [
+        "import { AdminModule } from './admin.module.js';",
+        "import { ReportsModule } from './reports.module.js';",
+        '@Module({',
+        '  imports: [',
+        '    RouterModule.register([',
+        "      { path: 'admin', module: AdminModule, children: [{ path: 'reports', module: ReportsModule }] },",
+        '    ]),',
+        '  ],',
+        '  controllers: [HealthController],',
+        '})',
+        'export class AppModule {}',
+      ]),
+      loadSource('/project/admin.module.ts', [
+        "import { UsersController } from './users.controller.js';",
+        '@Module({ controllers: [UsersController] })',
+        'export class AdminModule {}',
+      ]),
+      loadSource('/project/reports.module.ts', [
+        "import { ReportsController } from './reports.controller.js';",
+        '@Module({ controllers: [ReportsController] })',
+        'export class ReportsModule {}',
+      ]),
+      loadSource('/project/users.controller.ts', [
+        "@Controller({ path: 'users', version: ['1', '2'] })",
+        'export class UsersController {',
+        '  @Get()',
+        '  list() {}',
+        '  @Version(VERSION_NEUTRAL)',
+        "  @Delete(':id')",
+        '  remove() {}',
+        '}',
+      ]),
+      loadSource('/project/reports.controller.ts', [
+        '@Controller()',
+        'export class ReportsController {',
+        "  @Get('daily')",
+        '  daily() {}',
+        "  @Post('daily')",
+        '  regenerate() {}',
+        '}',
+      ]),
+      loadSource('/project/health.controller.ts', [
+        "@Controller('health')",
+        'export class HealthController {',
+        '  @Get()',
+        '  check() {}',
+        '}',
+      ]),
+    ]);
+
+    expect(endpoints.map((e) => `${e.method} ${e.route}`)).toEqual([
+      'GET /api/v1/admin/users',
+      'GET /api/v2/admin/users',
+      'DELETE /api/admin/users/:id',
+      'GET /v1/admin/reports/daily',
+      'POST /api/v1/admin/reports/daily',
+      'GET /v1/health',
+    ]);
+  });
+});
+
+describe('NestJSDiscoverer custom decorators', () => {
+  it('expands applyDecorators and SetMetadata factories defined in other files', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/auth.decorators.ts', [
+        "import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';",
+        "export const IS_PUBLIC_KEY = 'isPublic';",
+        'export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);',
+        'export const Auth = (...roles: string[]) =>',
+        '  applyDecorators(UseGuards(JwtAuthGuard, RolesGuard), SetMetadata(ROLES_KEY, roles));',
+        'export function Can(permission: string) {',
+        "  return applyDecorators(Auth(), SetMetadata('permissions', [permission]));",
+        '}',
+      ]),
+      loadSource('/project/reports.controller.ts', [
+        "import { Auth, Can, Public as Anonymous } from './auth.decorators.js';",
+        "@Controller('reports')",
+        'export class ReportsController {',
+        "  @Auth('admin', 'auditor')",
+        '  @Get()',
+        '  list() {}',
+        "  @Can('reports:export')",
+        "  @Post('export')",
+        '  export() {}',
+        '  @Anonymous()',
+        "  @Get('public')",
+        '  summary() {}',
+        '}',
+      ]),
+    ]);
+
+    expect(
+      endpoints.map((e) => [
+        e.route,
+        e.authorization.classification,
+        e.authorization.roles,
+        e.authorization.policies,
+        e.authorization.isExplicitlyPublic,
+      ])
+    ).toEqual([
+      ['/reports', 'role-restricted', ['admin', 'auditor'], [], false],
+      ['/reports/export', 'policy-restricted', [], ['reports:export'], false],
+      ['/reports/public', 'public', [], [], true],
+    ]);
+    expect(endpoints[0].authorization.guardNames).toEqual(['JwtAuthGuard', 'RolesGuard']);
+  });
+});
+
+describe('NestJSDiscoverer class-level decorators', () => {
+  it('interprets class decorators like method decorators, resolving enum roles', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/roles.ts', [
+        "export enum Role { Admin = 'admin', Editor = 'editor' }",
+        'export const SUPPORT_ROLES = [Role.Editor, "support"] as const;',
+      ]),
+      loadSource('/project/articles.controller.ts', [
+        "import { Role, SUPPORT_ROLES } from './roles.js';",
+        "@Controller('articles')",
+        "@UseGuards(AuthGuard('jwt'))",
+        '@Roles(Role.Admin)',
+        "@Policies(['articles:read'])",
+        'export class ArticlesController {',
+        '  @Get()',
+        '  list() {}',
+        '  @Roles(...SUPPORT_ROLES)',
+        "  @Put(':id')",
+        '  update() {}',
+        '}',
+      ]),
+    ]);
+
+    expect(endpoints.map((e) => [e.authorization.guardNames, e.authorization.roles])).toEqual([
+      [['AuthGuard'], ['admin']],
+      [['AuthGuard'], ['admin', 'editor', 'support']],
+    ]);
+    expect(endpoints[0].authorization).toMatchObject({
+      isAuthenticated: true,
+      policies: ['articles:read'],
+      classification: 'policy-restricted',
+    });
+  });
+});
+
+describe('NestJSDiscoverer inheritance', () => {
+  it('reports routes and guards inherited from base controllers and mixins', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/base-crud.controller.ts', [
+        '@UseGuards(JwtAuthGuard)',
+        'export abstract class BaseCrudController<T> {',
+        "  @Get(':id')",
+        '  findOne() {}',
+        "  @Delete(':id')",
+        '  remove() {}',
+        '}',
+        'export function CrudController<T>(entity: Type<T>) {',
+        '  abstract class CrudHost extends BaseCrudController<T> {',
+        '    @Get()',
+        '    findAll() {}',
+        '  }',
+        '  return mixin(CrudHost);',
+        '}',
+      ]),
+      loadSource('/project/users.controller.ts', [
+        "import { BaseCrudController } from './base-crud.controller.js';",
+        "@Controller('users')",
+        'export class UsersController extends BaseCrudController<User> {',
+        "  @Roles('admin')",
+        "  @Delete(':id')",
+        '  remove() {}',
+        '}',
+      ]),
+      loadSource('/project/orders.controller.ts', [
+        "import { CrudController } from './base-crud.controller.js';",
+        "@Controller('orders')",
+        '@UseGuards(RolesGuard)',
+        'export class OrdersController extends CrudController(Order) {}',
+      ]),
+    ]);
+
+    expect(
+      endpoints.map((e) => [
+        `${e.controllerName} ${e.method} ${e.route}`,
+        e.authorization.guardNames,
+        e.authorization.roles,
+      ])
+    ).toEqual([
+      ['UsersController DELETE /users/:id', ['JwtAuthGuard'], ['admin']],
+      ['UsersController GET /users/:id', ['JwtAuthGuard'], []],
+      ['OrdersController GET /orders', ['JwtAuthGuard', 'RolesGuard'], []],
+      ['OrdersController GET /orders/:id', ['JwtAuthGuard', 'RolesGuard'], []],
+      ['OrdersController DELETE /orders/:id', ['JwtAuthGuard', 'RolesGuard'], []],
+    ]);
+  });
+});
+
+describe('NestJSDiscoverer guard classification', () => {
+  const files = [
+    loadSource('/project/guards.ts', [
+      "import { AuthGuard } from '@nestjs/passport';",
+      "import { ThrottlerGuard } from '@nestjs/throttler';",
+      "export class JwtGuard extends AuthGuard('jwt') {}",
+      'export class RateAuthGuard extends ThrottlerGuard {}',
+      'export class TenantGuard implements CanActivate {',
+      '  constructor(private jwt: JwtService) {}',
+      '  canActivate(context) {',
+      '    const request = context.switchToHttp().getRequest();',
+      "    const token = request.headers.authorization?.replace('Bearer ', '');",
+      '    request.tenant = this.jwt.verify(token).tenant;',
+      '    return true;',
+      '  }',
+      '}',
+      'export class OwnerGuard implements CanActivate {',
+      '  canActivate(context) {',
+      "    const roles = this.reflector.get('roles', context.getHandler());",
+      '    return roles.includes(context.switchToHttp().getRequest().user.role);',
+      '  }',
+      '}',
+    ]),
+    loadSource('/project/items.controller.ts', [
+      "import { JwtGuard, RateAuthGuard, TenantGuard, OwnerGuard } from './guards.js';",
+      "@Controller('items')",
+      'export class ItemsController {',
+      "  @Get('a') @UseGuards(JwtGuard) a() {}",
+      "  @Get('b') @UseGuards(RateAuthGuard) b() {}",
+      "  @Get('c') @UseGuards(TenantGuard) c() {}",
+      "  @Get('d') @UseGuards(OwnerGuard) d() {}",
+      '}',
+    ]),
+  ];
+
+  it('decides authentication from what the guard does, not its name', async () => {
+    const endpoints = await discoverAll(files);
+
+    expect(endpoints.map((e) => [e.route, e.authorization.isAuthenticated])).toEqual([
+      ['/items/a', true],
+      ['/items/b', false],
+      ['/items/c', true],
+      ['/items/d', false],
+    ]);
+    expect(endpoints[1].authorization.guardNames).toEqual(['RateAuthGuard']);
+  });
+
+  it('lets config override the classification', async () => {
+    const endpoints = await discoverAll(files, {
+      guards: { OwnerGuard: GuardKind.Authentication, TenantGuard: GuardKind.Other },
+    });
+
+    expect(endpoints.map((e) => e.authorization.isAuthenticated)).toEqual([true, false, false, true]);
+  });
+
+  it('classifies same-named guards from the module each controller imports', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/admin/access.guard.ts', [
+        'export class AccessGuard implements CanActivate {',
+        '  canActivate(context) {',
+        '    return this.jwtService.verify(context.switchToHttp().getRequest().headers.authorization);',
+        '  }',
+        '}',
+      ]),
+      loadSource('/project/billing/access.guard.ts', [
+        'export class AccessGuard implements CanActivate {',
+        '  canActivate(context) {',
+        "    return context.switchToHttp().getRequest().user.roles.includes('billing');",
+        '  }',
+        '}',
+      ]),
+      loadSource('/project/billing/invoices.controller.ts', [
+        "import { AccessGuard } from './access.guard.js';",
+        "@Controller('invoices') @UseGuards(AccessGuard)",
+        'export class InvoicesController { @Get() list() {} }',
+      ]),
+      loadSource('/project/admin/users.controller.ts', [
+        "import { AccessGuard } from './access.guard.js';",
+        "@Controller('users') @UseGuards(AccessGuard)",
+        'export class UsersController { @Get() list() {} }',
+      ]),
+    ]);
+
+    expect(endpoints.map((e) => [e.route, e.authorization.isAuthenticated])).toEqual([
+      ['/invoices', false],
+      ['/users', true],
+    ]);
+  });
+});
+
+describe('NestJSDiscoverer GraphQL resolvers', () => {
+  it('reports resolver operations with their guards, mutations as writes', async () => {
+    const endpoints = await discoverAll([
+      loadSource('/project/users.resolver.ts', [
+        "import { Resolver, Query, Mutation, ResolveField, Subscription } from '@nestjs/graphql';",
+        '@Resolver(() => User)',
+        '@UseGuards(GqlAuthGuard)',
+        'export class UsersResolver {',
+        '  @Query(() => [User], { name: \'users\' })',
+        '  findAll() {}',
+        '  @Mutation(() => User)',
+        "  @Roles('admin')",
+        '  deleteUser() {}',
+        "  @ResolveField('posts', () => [Post])",
+        '  getPosts() {}',
+        '  @Subscription(() => User)',
+        '  @Public()',
+        '  userAdded() {}',
+        '  helper() {}',
+        '}',
+      ]),
+      loadSource('/project/auth.resolver.ts', [
+        '@Resolver()',
+        'export class AuthResolver {',
+        '  @Mutation(() => Token)',
+        '  signIn() {}',
+        '}',
+      ]),
+    ]);
+
+    expect(
+      endpoints.map((e) => [
+        `${e.method} ${e.route}`,
+        e.authorization.isAuthenticated,
+        e.authorization.isExplicitlyPublic,
+      ])
+    ).toEqual([
+      ['QUERY users', true, false],
+      ['MUTATION deleteUser', true, false],
+      ['FIELD User.posts', true, false],
+      ['SUBSCRIPTION userAdded', true, true],
+      ['MUTATION signIn', false, false],
+    ]);
+    expect(endpoints[1].authorization.roles).toEqual(['admin']);
+    expect(isWriteMethod(endpoints[4].method)).toBe(true);
+  });
+});
+
+describe('NestJSDiscoverer message handlers', () => {
+  it('reports gateway events and microservice patterns with their transport', async () => {
+    const endpoints = await discoverAll([
+      // Covers HTTP routes only
+      loadSource('/project/main.ts', ['app.useGlobalGuards(new JwtAuthGuard());']),
+      loadSource('/project/chat.gateway.ts', [
+        "@WebSocketGateway(81, { namespace: '/chat' })",
+        'export class ChatGateway {',
+        "  @SubscribeMessage('message')",
+        '  onMessage() {}',
+        "  @UseGuards(WsJwtGuard) @SubscribeMessage('ban')",
+        '  onBan() {}',
+        '}',
+      ]),
+      loadSource('/project/math.controller.ts', [
+        '@Controller()',
+        'export class MathController {',
+        "  @MessagePattern({ op: 'sum', cmd: 'math' })",
+        '  sum() {}',
+        "  @EventPattern('user.created')",
+        '  onUserCreated() {}',
+        '}',
+      ]),
+    ]);
+
+    expect(
+      endpoints.map((e) => [`${e.method} ${e.route}`, e.transport, e.authorization.isAuthenticated])
+    ).toEqual([
+      ['MESSAGE chat/message', 'websocket', false],
+      ['MESSAGE chat/ban', 'websocket', true],
+      ['MESSAGE {"cmd":"math","op":"sum"}', 'microservice', false],
+      ['EVENT user.created', 'microservice', false],
+    ]);
+  });
+});
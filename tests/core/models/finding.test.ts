@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { createEndpoint } from '../../../src/core/models/endpoint.js';
+import { createFinding, normalizeRouteForFingerprint } from '../../../src/core/models/finding.js';
+import { EndpointType } from '../../../src/core/models/endpoint-type.js';
+import { HttpMethod } from '../../../src/core/models/http-method.js';
+import { Severity } from '../../../src/core/models/severity.js';
+
+interface FindingShape {
+  route?: string;
+  filePath?: string;
+  line?: number;
+  type?: EndpointType;
+  handlerName?: string;
+  controllerName?: string;
+  ruleId?: string;
+}
+
+function makeFinding(shape: FindingShape = {}) {
+  const location = { filePath: shape.filePath ?? '/project/users.controller.ts', line: shape.line ?? 1, column: 1 };
+  const endpoint = createEndpoint({
+    route: shape.route ?? '/users/:id',
+    method: HttpMethod.DELETE,
+    handlerName: shape.handlerName ?? 'remove',
+    controllerName: shape.controllerName ?? 'UsersController',
+    type: shape.type ?? EndpointType.NestJS,
+    location,
+  });
+  return createFinding({
+    ruleId: shape.ruleId ?? 'AP004',
+    ruleName: 'Missing authentication on write operations',
+    severity: Severity.Critical,
+    message: 'message',
+    endpoint,
+    location,
+    recommendation: 'recommendation',
+  });
+}
+
+describe('Finding fingerprint', () => {
+  it('is a short deterministic hex digest', () => {
+    expect(makeFinding().fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(makeFinding().fingerprint).toBe(makeFinding().fingerprint);
+  });
+
+  it('survives line shifts, file renames and parameter renames', () => {
+    const original = makeFinding().fingerprint;
+    expect(makeFinding({ line: 120 }).fingerprint).toBe(original);
+    expect(makeFinding({ filePath: '/project/src/users/users.controller.ts' }).fingerprint).toBe(original);
+    expect(makeFinding({ route: '/users/:userId/' }).fingerprint).toBe(original);
+  });
+
+  it('changes with rule, framework, handler and controller', () => {
+    const original = makeFinding().fingerprint;
+    expect(makeFinding({ ruleId: 'AP001' }).fingerprint).not.toBe(original);
+    expect(makeFinding({ type: EndpointType.Express }).fingerprint).not.toBe(original);
+    expect(makeFinding({ handlerName: 'destroy' }).fingerprint).not.toBe(original);
+    expect(makeFinding({ controllerName: 'AdminUsersController' }).fingerprint).not.toBe(original);
+  });
+});
+
+describe('normalizeRouteForFingerprint', () => {
+  it('erases Express and OpenAPI-style parameter names', () => {
+    expect(normalizeRouteForFingerprint('/users/:userId/posts/:postId?')).toBe('/users/:param/posts/:param?');
+    expect(normalizeRouteForFingerprint('/users/{id}')).toBe('/users/{param}');
+  });
+
+  it('collapses duplicate and trailing slashes', () => {
+    expect(normalizeRouteForFingerprint('//api//users/')).toBe('/api/users');
+    expect(normalizeRouteForFingerprint('/')).toBe('/');
+  });
+});
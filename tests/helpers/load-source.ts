@@ -0,0 +1,9 @@
+import * as ts from 'typescript';
+import { LoadedSourceFile } from '../../src/core/analysis/source-file-loader.js';
+
+/** Parses `lines` as the file at `filePath`, the way SourceFileLoader would */
+export function loadSource(filePath: string, lines: string[]): LoadedSourceFile {
+  const content = lines.join('\n');
+  const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+  return { filePath, sourceFile, content };
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { RuleEngine } from '../../src/rules/rule-engine.js';
+import { validateRuleOptions } from '../../src/rules/rule-options.js';
+import type { Endpoint } from '../../src/core/models/endpoint.js';
+import { Severity } from '../../src/core/models/severity.js';
+import { SecurityClassification } from '../../src/core/models/security-classification.js';
+import { Transport } from '../../src/core/models/transport.js';
+
+function makeEndpoint(route: string, roles: string[] = []): Endpoint {
+  return {
+    route,
+    method: 'GET',
+    transport: 'http',
+    handlerName: 'handler',
+    type: 'express',
+    location: { filePath: 'src/app.ts', line: 1, column: 1 },
+    authorization: {
+      isAuthenticated: roles.length > 0,
+      isExplicitlyPublic: false,
+      roles,
+      policies: [],
+      middlewareChain: roles.length > 0 ? ['requireRole'] : [],
+      guardNames: [],
+      classification:
+        roles.length > 0 ? SecurityClassification.RoleRestricted : SecurityClassification.Public,
+    },
+  } as Endpoint;
+}
+
+function findingsFor(engine: RuleEngine, endpoint: Endpoint, ruleId: string) {
+  return engine.evaluate([endpoint]).filter((f) => f.ruleId === ruleId);
+}
+
+describe('RuleEngine configuration', () => {
+  it('skips disabled rules', () => {
+    const engine = new RuleEngine({ rules: { AP001: { enabled: false } } });
+    expect(engine.getRuleById('AP001')).toBeUndefined();
+    expect(findingsFor(engine, makeEndpoint('/api/users'), 'AP001')).toHaveLength(0);
+  });
+
+  it('overrides rule severity', () => {
+    const engine = new RuleEngine({ rules: { AP005: { severity: Severity.Medium } } });
+    const endpoint = makeEndpoint('/api/orders', ['a', 'b', 'c', 'd']);
+
+    const findings = findingsFor(engine, endpoint, 'AP005');
+    expect(findings).toHaveLength(1);
+    expect(findings[0].severity).toBe(Severity.Medium);
+  });
+
+  it('honours AP005 maxRoles', () => {
+    const endpoint = makeEndpoint('/api/orders', ['a', 'b', 'c', 'd']);
+    const engine = new RuleEngine({ rules: { AP005: { options: { maxRoles: 5 } } } });
+    expect(findingsFor(engine, endpoint, 'AP005')).toHaveLength(0);
+  });
+
+  it('extends AP007 keywords with domain words', () => {
+    const engine = new RuleEngine({
+      rules: { AP007: { options: { additionalKeywords: ['payouts', 'impersonate'] } } },
+    });
+    expect(findingsFor(engine, makeEndpoint('/api/payouts'), 'AP007')).toHaveLength(1);
+    expect(findingsFor(engine, makeEndpoint('/users/:id/impersonate'), 'AP007')).toHaveLength(1);
+    expect(findingsFor(new RuleEngine(), makeEndpoint('/api/payouts'), 'AP007')).toHaveLength(0);
+  });
+
+  it('drops AP007 keywords listed in excludeKeywords', () => {
+    const engine = new RuleEngine({
+      rules: { AP007: { options: { excludeKeywords: ['metrics'] } } },
+    });
+    expect(findingsFor(engine, makeEndpoint('/metrics'), 'AP007')).toHaveLength(0);
+  });
+
+  it('lets teams allow standardised AP006 role names', () => {
+    const endpoint = makeEndpoint('/api/orders', ['admin', 'member']);
+    const engine = new RuleEngine({
+      rules: { AP006: { options: { allowedRoles: ['Admin'] } } },
+    });
+
+    const findings = findingsFor(engine, endpoint, 'AP006');
+    expect(findings).toHaveLength(1);
+    expect(findings[0].message).toContain('member');
+    expect(findings[0].message).not.toContain('admin');
+  });
+
+  it('evaluates non-HTTP endpoints only with rules that opt in to their transport', () => {
+    const gatewayEvent = { ...makeEndpoint('chat/message'), transport: Transport.WebSocket };
+    const brokerEvent = { ...makeEndpoint('user.created'), transport: Transport.Microservice };
+    const engine = new RuleEngine();
+
+    expect(engine.evaluate([gatewayEvent]).map((f) => f.ruleId)).toEqual(['AP001']);
+    expect(engine.evaluate([brokerEvent])).toEqual([]);
+  });
+});
+
+describe('validateRuleOptions', () => {
+  it('accepts valid options', () => {
+    const result = validateRuleOptions('AP005', { maxRoles: 4 });
+    expect(result.errors).toHaveLength(0);
+    expect(result.options).toEqual({ maxRoles: 4 });
+  });
+
+  it('rejects options of the wrong type', () => {
+    const result = validateRuleOptions('AP007', { additionalKeywords: 'payouts' });
+    expect(result.errors).toEqual([
+      'Option "additionalKeywords" for rule AP007 must be an array of strings',
+    ]);
+    expect(result.options).toEqual({});
+  });
+
+  it('rejects unknown options and options for rules without any', () => {
+    expect(validateRuleOptions('AP005', { maxRole: 4 }).errors).toHaveLength(1);
+    expect(validateRuleOptions('AP001', { anything: true }).errors).toHaveLength(1);
+  });
+});